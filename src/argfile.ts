@@ -0,0 +1,197 @@
+import { cwd, dirname, isAbsolute, joinPath, readTextFile } from "./utils";
+
+/**
+ * Options for expanding argument files.
+ */
+export interface ArgFileOpts {
+  /**
+   * How deep argument files can include other argument files. Defaults to 10.
+   */
+  maxDepth?: number;
+}
+
+/**
+ * An argument read from an argument file.
+ */
+export interface ArgToken {
+  /**
+   * The argument, without quotes and escapes.
+   */
+  value: string;
+  /**
+   * The line the argument starts on.
+   */
+  line: number;
+  /**
+   * If the argument names another argument file, which is when it starts with an unquoted, unescaped `@`.
+   */
+  include: boolean;
+}
+
+/**
+ * Thrown when an argument file can't be read or parsed.
+ */
+export class ArgFileSyntaxError extends Error {
+  /**
+   * The file the error happened in.
+   */
+  file: string;
+  /**
+   * The line the error happened on, if known.
+   */
+  line: number | undefined;
+  /**
+   * What went wrong, without the location.
+   */
+  reason: string;
+
+  /**
+   * Creates a new argument file syntax error.
+   * @param reason What went wrong.
+   * @param file The file.
+   * @param line The line.
+   */
+  constructor(reason: string, file: string, line?: number) {
+    super(`${line === undefined ? file : `${file}:${line}`}: ${reason}`);
+    this.file = file;
+    this.line = line;
+    this.reason = reason;
+  }
+}
+
+// characters a backslash escapes outside of quotes; other backslashes are kept, so Windows paths work
+const ESCAPABLE = new Set(["\\", '"', "'", "#", "@", " ", "\t", "\r", "\n"]);
+
+/**
+ * Splits the contents of an argument file into arguments, like a shell does:
+ * - Arguments are separated by whitespace, including line breaks.
+ * - Single quotes keep everything literally. Double quotes keep everything but `\"` and `\\`.
+ * - A backslash escapes a quote, a backslash, `#`, `@` or whitespace. A backslash at the end of a line continues it.
+ * - `#` at the start of an argument comments out the rest of the line.
+ * @param text The contents of the file.
+ * @param file The path of the file, for errors.
+ * @returns The arguments.
+ */
+export function tokenize(text: string, file: string): ArgToken[] {
+  const tokens: ArgToken[] = [];
+  let token: ArgToken | undefined;
+  let line = 1;
+
+  const start = (include = false) => (token ??= { value: "", line, include });
+  // skips a line break after a backslash, which continues the line
+  const continues = (at: number) => {
+    const length = text.startsWith("\r\n", at) ? 2 : text[at] === "\n" ? 1 : 0;
+    if (length === 0) return false;
+    i = at + length - 1;
+    line++;
+    return true;
+  };
+  let i = 0;
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\n") line++;
+
+    if (/\s/.test(char)) {
+      if (token) tokens.push(token);
+      token = undefined;
+    } else if (char === "#" && !token) {
+      while (i + 1 < text.length && text[i + 1] !== "\n") i++;
+    } else if (char === "'" || char === '"') {
+      const opened = line;
+      // quotes start an argument, even an empty one
+      start();
+      let closed = false;
+      while (++i < text.length) {
+        let c = text[i];
+        if (c === "\n") line++;
+        if (c === char) {
+          closed = true;
+          break;
+        }
+        if (char === '"' && c === "\\") {
+          if (continues(i + 1)) continue;
+          const next = text[i + 1];
+          if (next === '"' || next === "\\") c = text[++i];
+        }
+        token!.value += c;
+      }
+      if (!closed) {
+        throw new ArgFileSyntaxError(
+          `unterminated ${char === "'" ? "single" : "double"} quote`,
+          file,
+          opened,
+        );
+      }
+    } else if (char === "\\" && ESCAPABLE.has(text[i + 1])) {
+      if (continues(i + 1)) continue;
+      start().value += text[++i];
+    } else {
+      start(char === "@").value += char;
+    }
+  }
+  if (token) tokens.push(token);
+  return tokens;
+}
+
+/**
+ * Replaces arguments like `@path` with the arguments in the file at `path`.
+ * Argument files can include other argument files, relative to themselves. `@@literal` passes `@literal` through,
+ * and nothing after `--` is expanded.
+ * @param argv The arguments.
+ * @param opts Options for expanding argument files.
+ * @returns The expanded arguments.
+ */
+export async function expandArgFiles(
+  argv: string[],
+  opts: ArgFileOpts = {},
+): Promise<string[]> {
+  const maxDepth = opts.maxDepth ?? 10;
+  const result: string[] = [];
+  let terminated = false;
+
+  const expand = async (
+    args: { value: string; include: boolean; line?: number }[],
+    stack: string[],
+  ) => {
+    const from = stack[stack.length - 1];
+    for (const { value, include, line } of args) {
+      if (terminated || !include || value.length < 2) {
+        result.push(value);
+        if (value === "--" && !include) terminated = true;
+        continue;
+      }
+      if (value.startsWith("@@")) {
+        result.push(value.slice(1));
+        continue;
+      }
+
+      const path = value.slice(1);
+      const file = isAbsolute(path)
+        ? path
+        : joinPath(from ? dirname(from) : cwd(), path);
+      // errors in a file point to the line that includes the next one
+      const fail = (reason: string) =>
+        new ArgFileSyntaxError(reason, from ?? path, line);
+
+      if (stack.includes(file)) throw fail(`${path} includes itself`);
+      if (stack.length >= maxDepth) {
+        throw fail(`argument files are nested more than ${maxDepth} deep`);
+      }
+
+      let text: string;
+      try {
+        text = await readTextFile(file);
+      } catch {
+        throw fail(from ? `can't read ${path}` : "can't be read");
+      }
+      await expand(tokenize(text, file), [...stack, file]);
+    }
+  };
+
+  await expand(
+    argv.map((value) => ({ value, include: value.startsWith("@") })),
+    [],
+  );
+  return result;
+}
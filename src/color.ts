@@ -62,6 +62,16 @@ function detectColorSupport() {
  */
 export const supportsColor = detectColorSupport();
 
+let colorOverride: boolean | undefined;
+
+/**
+ * Forces colored output on or off, whatever the runtime supports.
+ * @param enabled If colors are enabled, or `undefined` to detect it again.
+ */
+export function overrideColor(enabled?: boolean) {
+  colorOverride = enabled;
+}
+
 /**
  * Creates a function that wraps a string in ANSI codes.
  * @param open The opening ANSI code.
@@ -75,9 +85,8 @@ export function createAnsiColor(
   const openCode = `\u001b[${open}m`;
   const closeCode = `\u001b[${close}m`;
 
-  if (!supportsColor) return (input) => input + "";
-
   return (input) => {
+    if (!(colorOverride ?? supportsColor)) return input + "";
     if (!input) return openCode + closeCode;
 
     const str = input + "";
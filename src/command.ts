@@ -1,21 +1,98 @@
-import { gray, cyan, bold, type Theme } from "./color";
-import { setTheme as setPromptTheme } from "./prompt";
-import { setTheme as setLogTheme } from "./log";
+import { cyan, type Theme } from "./color";
 import {
+  confirm,
+  password,
+  select,
+  setTheme as setPromptTheme,
+  text
+} from "./prompt";
+import {
+  getConfig as getLogConfig,
+  readStdin,
+  setTheme as setLogTheme,
+  warn
+} from "./log";
+import {
+  ArgFileError,
+  ConfigFileError,
+  ConfigValueError,
+  ConflictingOptionsError,
   ConvokerError,
+  ExitError,
+  ExternalCommandError,
   HelpAskedError,
+  InputValidationError,
+  InvalidChoiceError,
+  InvalidValueError,
+  MissingCommandError,
+  MissingDependencyError,
+  MissingOneOfError,
   MissingRequiredArgumentError,
   MissingRequiredOptionError,
+  StdinConflictError,
   TooManyArgumentsError,
+  UnknownCommandError,
   UnknownOptionError,
+  ValueFileError,
 } from "./error";
 import {
+  Choices,
   convert,
+  isFlag,
+  parseBoolean,
   Option,
   Positional,
+  type Deprecation,
+  type ExactlyOneInput,
+  type ExclusiveInput,
   type InferInput,
   type Input,
 } from "./input";
+import {
+  ConfigSyntaxError,
+  convertConfigValue,
+  loadConfigFiles,
+  scopeConfig,
+  type ConfigOpts,
+} from "./config";
+import {
+  complete,
+  formatCompletion,
+  generateCompletion,
+  SHELLS,
+  type Completion,
+  type Shell
+} from "./completion";
+import {
+  findExecutable,
+  listExternalCommands,
+  spawnExternal,
+  type ExternalCommand,
+  type ExternalOpts
+} from "./external";
+import {
+  ArgFileSyntaxError,
+  expandArgFiles,
+  type ArgFileOpts
+} from "./argfile";
+import { DefaultHelpFormatter, type HelpFormatter } from "./help";
+import { fromManifest, toManifest, type Manifest } from "./manifest";
+import {
+  loadPlugins,
+  registerPlugin,
+  type LoadedPlugin,
+  type Plugin,
+  type PluginOpts
+} from "./plugin";
+import { childCommands, pageName } from "./tree";
+import {
+  getEnv,
+  isInteractive,
+  onInterrupt,
+  readTextFile,
+  setExitCode,
+  suggest
+} from "./utils";
 
 /**
  * What the command is an alias for.
@@ -29,6 +106,59 @@ export interface CommandAlias<T extends Input = Input> {
    * The name of the command this is an alias for.
    */
   alias?: string;
+  /**
+   * Why this alias is deprecated.
+   */
+  deprecated?: Deprecation;
+}
+
+/**
+ * Where a parsed value came from.
+ */
+export type ValueSource =
+  | "cli"
+  | "env"
+  | "config"
+  | "default"
+  | "implied"
+  | "prompt";
+
+// values from a source override conflicting values from the sources below it
+const PRECEDENCE: Record<ValueSource, number> = {
+  cli: 5,
+  prompt: 5,
+  env: 4,
+  config: 3,
+  implied: 2,
+  default: 1
+};
+
+/**
+ * An example of how to use a command.
+ */
+export interface Example {
+  /**
+   * The command line, like `mycli deploy --region eu`.
+   */
+  command: string;
+  /**
+   * What the example does.
+   */
+  description: string | undefined;
+}
+
+/**
+ * A group of related options.
+ */
+export interface OptionGroup {
+  /**
+   * How many of the options can be present: at most one, at least one or exactly one.
+   */
+  type: "exclusive" | "atLeastOne" | "exactlyOne";
+  /**
+   * The keys of the options.
+   */
+  keys: string[];
 }
 
 /**
@@ -43,6 +173,11 @@ export interface ParseResult<T extends Input> {
    * The input to pass into the command.
    */
   input: InferInput<T>;
+  /**
+   * Where each value in the input came from. Keys that were never set are missing,
+   * which tells an unset option apart from one that was explicitly set to `false`.
+   */
+  sources: Partial<Record<keyof T, ValueSource>>;
   /**
    * Errors collected during parsing.
    */
@@ -55,22 +190,137 @@ export interface ParseResult<T extends Input> {
    * If this should result in displaying a help screen.
    */
   isHelp: boolean;
+  /**
+   * Arguments after the `--` terminator, if the command forwards raw arguments.
+   */
+  passthrough: string[];
+  /**
+   * Warnings for the deprecated commands, aliases, options and arguments that were used.
+   */
+  deprecations: string[];
+  /**
+   * The positional arguments that were passed to the command.
+   */
+  args: string[];
+  /**
+   * The external subcommand to run instead, if one was selected.
+   */
+  external?: ExternalCommand & {
+    /**
+     * The arguments after the name of the external subcommand.
+     */
+    args: string[];
+  };
+}
+
+/**
+ * Options for the `Command.parse` function.
+ */
+export interface ParseOpts {
+  /**
+   * Skips values that fail to convert, instead of throwing. Used for shell completion.
+   */
+  tolerant?: boolean;
+  /**
+   * Prompts for missing required input, unless `--no-input` is passed. `run` enables this when stdin is a terminal.
+   */
+  prompt?: boolean;
 }
 
 /**
- * Command action function.
+ * Options for "did you mean...?" suggestions.
  */
-export type ActionFn<T extends Input> = (
-  input: InferInput<T>
-) => any | Promise<any>;
+export interface SuggestOpts {
+  /**
+   * The maximum edit distance of a suggestion. Defaults to 2.
+   */
+  threshold?: number;
+  /**
+   * Reports positional arguments that are close to a subcommand name as unknown commands, instead of accepting them.
+   * Only matters for commands that take positional arguments, since other commands always report unknown commands.
+   */
+  subcommandTypos?: boolean;
+}
+
+/**
+ * What middleware and actions receive besides the input.
+ * Middleware can extend it by passing an object to `next`.
+ */
+export interface Context {
+  /**
+   * The command being run.
+   */
+  command: Command<any>;
+  /**
+   * The arguments passed to `run`.
+   */
+  argv: string[];
+  /**
+   * Arguments after the `--` terminator, if the command forwards raw arguments.
+   */
+  passthrough: string[];
+  /**
+   * Aborted on the first interrupt, like Ctrl+C. The action should then stop soon: a second interrupt exits with
+   * code 130 straight away.
+   */
+  signal: AbortSignal;
+  /**
+   * Standard input, from the logger configuration.
+   */
+  stdin: ReadableStream<string>;
+  /**
+   * Standard output, from the logger configuration.
+   */
+  stdout: WritableStream<string>;
+  /**
+   * Standard error, from the logger configuration.
+   */
+  stderr: WritableStream<string>;
+}
+
+/**
+ * Command action function. To exit with a code, it can return or throw an `ExitError`.
+ * Other return values are ignored, so `(input) => list.push(input.x)` still exits with 0.
+ */
+export type ActionFn<T extends Input, TCtx extends Context = Context> = {
+  // a method signature, so commands with extended contexts can be added to any parent
+  bivarianceHack(input: InferInput<T>, ctx: TCtx): any | Promise<any>;
+}["bivarianceHack"];
+
+/**
+ * What `next` resolves to. Middleware return it, so the extension of the context can be inferred.
+ */
+export interface MiddlewareResult<TExt extends object = object> {
+  /**
+   * The extension of the context that was passed to `next`.
+   */
+  ext: TExt;
+}
+
+/**
+ * Calls the next middleware, or the action, optionally extending the context.
+ */
+export type NextFn = <TExt extends object = object>(
+  ext?: TExt
+) => Promise<MiddlewareResult<TExt>>;
 
 /**
  * Command middleware function.
  */
-export type MiddlewareFn<T extends Input = Input> = (
-  input: InferInput<T>,
-  next: () => Promise<any>
-) => any | Promise<any>;
+export type MiddlewareFn<
+  T extends Input = Input,
+  TCtx extends Context = Context,
+  TExt extends object = object
+> = {
+  bivarianceHack(
+    input: InferInput<T>,
+    ctx: TCtx,
+    next: NextFn
+  ):
+    | MiddlewareResult<TExt>
+    | void
+    | Promise<MiddlewareResult<TExt> | void>;
+}["bivarianceHack"];
 
 /**
  * Command error handler.
@@ -81,11 +331,71 @@ export type ErrorFn<T extends Input> = (
   input: Partial<InferInput<T>>
 ) => void | Promise<void>;
 
+/**
+ * Maps an error to an exit code, or returns `undefined` to fall back to the default.
+ */
+export type ExitCodeFn = (error: Error) => number | undefined;
+
+/**
+ * A point in the lifecycle of `Command.run` that hooks can run at.
+ * - `preParse`: before the arguments are parsed.
+ * - `preSubcommand`: after a subcommand was selected.
+ * - `preAction`: before the action, and its middleware, runs.
+ * - `postAction`: after the action finished without throwing.
+ * - `onFinally`: at the end, even after help, version or errors.
+ */
+export type HookName =
+  | "preParse"
+  | "preSubcommand"
+  | "preAction"
+  | "postAction"
+  | "onFinally";
+
+/**
+ * What a hook receives.
+ */
+export interface HookContext {
+  /**
+   * The command being run. Before parsing, this is the command `run` was called on.
+   */
+  command: Command<any>;
+  /**
+   * The arguments passed to `run`.
+   */
+  argv: string[];
+  /**
+   * The parsed input, as far as it is known.
+   */
+  input: Record<string, unknown>;
+  /**
+   * The errors so far, from parsing or the action.
+   */
+  errors: Error[];
+}
+
+/**
+ * A lifecycle hook.
+ */
+export type HookFn = (context: HookContext) => void | Promise<void>;
+
 /**
  * Builder for commands.
  */
 export type Builder = (c: Command<any>) => Command<any> | void;
 
+/**
+ * What a lazy subcommand loads: a command or builder, or a module that exports one as default.
+ */
+export type LazyModule =
+  | Command<any>
+  | Builder
+  | { default: Command<any> | Builder };
+
+/**
+ * Loads a lazy subcommand, like `() => import("./deploy")`.
+ */
+export type Loader = () => LazyModule | Promise<LazyModule>;
+
 /**
  * An input map entry.
  */
@@ -103,7 +413,7 @@ interface MapEntry {
 /**
  * A command.
  */
-export class Command<T extends Input = Input> {
+export class Command<T extends Input = Input, TCtx extends Context = Context> {
   /**
    * The names (aliases) of this command.
    */
@@ -136,22 +446,90 @@ export class Command<T extends Input = Input> {
    * If you should be able to surpass the amount of positional arguments defined in the input.
    */
   $allowSurpassArgLimit: boolean = false;
+  /**
+   * If this command forwards the arguments after `--` as raw arguments.
+   */
+  $passthrough: boolean = false;
+  /**
+   * The prefix used to derive environment variable names for options.
+   */
+  $envPrefix: string | undefined;
+  /**
+   * Where this command loads configuration files from.
+   */
+  $config: ConfigOpts | undefined;
+  /**
+   * How this command suggests close matches for typos.
+   */
+  $suggestions: SuggestOpts | undefined;
   /**
    * The input this command takes.
    */
   $input: T = {} as T;
+  /**
+   * The groups of related options.
+   */
+  $groups: OptionGroup[] = [];
+  /**
+   * Examples of how to use this command.
+   */
+  $examples: Example[] = [];
+  /**
+   * Formats the help screen of this command and its subcommands.
+   */
+  $helpFormatter: HelpFormatter | undefined;
+  /**
+   * If this command is left out of help screens and completions.
+   */
+  $hidden: boolean = false;
+  /**
+   * Why this command is deprecated.
+   */
+  $deprecated: Deprecation | undefined;
+  /**
+   * Names of this command that are deprecated.
+   */
+  $deprecatedAliases: Map<string, Deprecation> = new Map();
+  /**
+   * Loads the rest of this command, if it was added lazily.
+   */
+  $loader: Loader | undefined;
+  /**
+   * The plugins added to this command.
+   */
+  $plugins: LoadedPlugin[] = [];
+  /**
+   * Lifecycle hooks, which run for this command and its subcommands.
+   */
+  $hooks: Partial<Record<HookName, HookFn[]>> = {};
+  /**
+   * Options for dispatching to external subcommands, if enabled.
+   */
+  $external: ExternalOpts | undefined;
+  /**
+   * The external subcommands found on `PATH`, once they were listed.
+   */
+  $externalCommands: ExternalCommand[] | undefined;
+  /**
+   * Options for expanding argument files, if enabled.
+   */
+  $argFiles: ArgFileOpts | undefined;
   /**
    * The action function of this command.
    */
-  $fn: ActionFn<T> | undefined = undefined;
+  $fn: ActionFn<T, TCtx> | undefined = undefined;
   /**
    * The middlewares associated with this command.
    */
-  $middlewares: MiddlewareFn<T>[] = [];
+  $middlewares: MiddlewareFn<T, any, any>[] = [];
   /**
    * The error handler of this command.
    */
   $errorFn: ErrorFn<T> | undefined = undefined;
+  /**
+   * The function that maps errors to exit codes, for this command and its subcommands.
+   */
+  $exitCodeFn: ExitCodeFn | undefined = undefined;
 
   /**
    * Creates a new command.
@@ -171,11 +549,99 @@ export class Command<T extends Input = Input> {
    * @returns this
    */
   alias(...aliases: string[]): this {
-    this.$names.concat(aliases);
+    this.$names.push(...aliases);
     this.$parent?.add(this);
     return this;
   }
 
+  /**
+   * Loads this command, if it was added lazily. Loaded commands take the place of the placeholder in the parent.
+   * @returns The loaded command.
+   */
+  async load(): Promise<Command<any>> {
+    if (!this.$loader) return this;
+    let loading = loads.get(this);
+    if (!loading) {
+      loading = this.resolveLoader(this.$loader);
+      loads.set(this, loading);
+    }
+    return loading;
+  }
+
+  /**
+   * Loads this command and every lazy command below it, like before generating documentation.
+   * @returns The loaded command.
+   */
+  async loadAll(): Promise<Command<any>> {
+    const command = await this.load();
+    for (const child of childCommands(command, true)) await child.loadAll();
+    return command;
+  }
+
+  private async resolveLoader(loader: Loader): Promise<Command<any>> {
+    let loaded = await loader();
+    if (!(loaded instanceof Command) && typeof loaded !== "function") {
+      loaded = loaded.default;
+    }
+    this.$loader = undefined;
+
+    if (typeof loaded === "function") {
+      loaded(this);
+      return this;
+    }
+
+    // keep what was set on the placeholder, like hiding or deprecating it
+    loaded.$description ??= this.$description;
+    loaded.$hidden ||= this.$hidden;
+    loaded.$deprecated ??= this.$deprecated;
+    for (const [alias, deprecation] of this.$deprecatedAliases) {
+      if (!loaded.$deprecatedAliases.has(alias)) {
+        loaded.$deprecatedAliases.set(alias, deprecation);
+      }
+    }
+    if (this.$parent) {
+      for (const [name, entry] of this.$parent.$children) {
+        if (entry.command === this) {
+          this.$parent.$children.set(name, { ...entry, command: loaded });
+        }
+      }
+      loaded.$parent = this.$parent;
+    }
+    return loaded;
+  }
+
+  /**
+   * Adds a deprecated alias to this command. It still works, but warns when used.
+   * @param alias The alias.
+   * @param message The message shown when it is used.
+   * @returns this
+   */
+  deprecatedAlias(alias: string, message: string): this {
+    this.$deprecatedAliases.set(alias, { message });
+    return this.alias(alias);
+  }
+
+  /**
+   * Hides this command from help screens and completions. It still runs.
+   * @param hidden If this command is hidden.
+   * @returns this
+   */
+  hidden(hidden = true): this {
+    this.$hidden = hidden;
+    return this;
+  }
+
+  /**
+   * Deprecates this command. It still runs, but warns when used.
+   * @param message The message shown when it is used.
+   * @param replacement The name of a sibling command to run instead.
+   * @returns this
+   */
+  deprecated(message: string, replacement?: string): this {
+    this.$deprecated = { message, replacement };
+    return this;
+  }
+
   /**
    * Adds a description to this command.
    * @param desc The description.
@@ -186,6 +652,27 @@ export class Command<T extends Input = Input> {
     return this;
   }
 
+  /**
+   * Adds an example of how to use this command.
+   * @param command The command line, like `mycli deploy --region eu`.
+   * @param desc What the example does.
+   * @returns this
+   */
+  example(command: string, desc?: string): this {
+    this.$examples.push({ command, description: desc });
+    return this;
+  }
+
+  /**
+   * Sets how the help screen of this command and its subcommands is formatted.
+   * @param formatter The help formatter.
+   * @returns this
+   */
+  helpFormatter(formatter: HelpFormatter): this {
+    this.$helpFormatter = formatter;
+    return this;
+  }
+
   /**
    * Adds a version to this command.
    * @param version The version.
@@ -201,17 +688,63 @@ export class Command<T extends Input = Input> {
    * @param version The input.
    * @returns this
    */
-  input<TInput extends Input>(input: TInput): Command<TInput> {
+  input<TInput extends Input>(input: TInput): Command<TInput, TCtx> {
     this.$input = input as any;
     return this as any;
   }
 
+  /**
+   * Allows at most one of a set of options. Values from a lower-precedence source, like the environment, give way to
+   * values from a higher one, like the command line.
+   * @param keys The keys of the options.
+   * @returns this
+   */
+  exclusive<K extends keyof T & string>(
+    ...keys: K[]
+  ): Command<ExclusiveInput<T, K>, TCtx> {
+    this.$groups.push({ type: "exclusive", keys });
+    return this as any;
+  }
+
+  /**
+   * Requires at least one of a set of options.
+   * @param keys The keys of the options.
+   * @returns this
+   */
+  atLeastOne<K extends keyof T & string>(...keys: K[]): this {
+    this.$groups.push({ type: "atLeastOne", keys });
+    return this;
+  }
+
+  /**
+   * Requires exactly one of a set of options. Values from a lower-precedence source give way, like with `exclusive()`.
+   * @param keys The keys of the options.
+   * @returns this
+   */
+  exactlyOne<K extends keyof T & string>(
+    ...keys: K[]
+  ): Command<ExactlyOneInput<T, K>, TCtx> {
+    this.$groups.push({ type: "exactlyOne", keys });
+    return this as any;
+  }
+
+  /**
+   * Adds a middleware. Objects it passes to `next` extend the context of later middleware and the action,
+   * like `use(async (input, ctx, next) => next({ db }))`.
+   * @param fn The middleware to use.
+   * @returns this, with the extended context
+   */
+  use<TExt extends object = object>(
+    fn: MiddlewareFn<T, TCtx, TExt>
+  ): Command<T, TCtx & TExt>;
   /**
    * Adds a chain of middlewares.
    * @param fns The middlewares to use.
    * @returns this
    */
-  use(...fns: MiddlewareFn<T>[]): this {
+  use(...fns: MiddlewareFn<T, TCtx>[]): this;
+
+  use(...fns: MiddlewareFn<T, TCtx, any>[]): this {
     this.$middlewares.push(...fns);
     return this;
   }
@@ -221,7 +754,7 @@ export class Command<T extends Input = Input> {
    * @param fn The action.
    * @returns this
    */
-  action(fn: ActionFn<T>): this {
+  action(fn: ActionFn<T, TCtx>): this {
     this.$fn = fn;
     return this;
   }
@@ -236,6 +769,16 @@ export class Command<T extends Input = Input> {
     return this;
   }
 
+  /**
+   * Overrides the exit codes of errors, for this command and its subcommands.
+   * @param fn Maps an error to an exit code, or returns `undefined` to fall back to the default.
+   * @returns this
+   */
+  exitCode(fn: ExitCodeFn): this {
+    this.$exitCodeFn = fn;
+    return this;
+  }
+
   /**
    * Adds an existing command to this.
    * @param command The command.
@@ -243,83 +786,352 @@ export class Command<T extends Input = Input> {
    */
   add(command: Command<any>): this {
     command.$parent = this;
-    const alias = { command, alias: command.$names[0] };
     for (let i = 0; i < command.$names.length; i++) {
-      if (i === 0) this.$children.set(command.$names[i], { command });
-      this.$children.set(command.$names[i], alias);
+      const name = command.$names[i];
+      if (i === 0) {
+        this.$children.set(name, { command });
+        continue;
+      }
+      this.$children.set(name, {
+        command,
+        alias: command.$names[0],
+        deprecated: command.$deprecatedAliases.get(name)
+      });
+    }
+    return this;
+  }
+
+  /**
+   * Creates a new subcommand and adds it.
+   * @param names The aliases of the subcommand.
+   * @param builder A builder to create the command.
+   */
+  subCommand(names: string | string[], builder: Builder): this;
+  /**
+   * Creates a new subcommand and adds it.
+   * @param names The aliases of the subcommand.
+   * @param desc The description of the subcommand.
+   * @param version The version of the subcommand.
+   */
+  subCommand(
+    names: string | string[],
+    desc?: string,
+    version?: string
+  ): Command<any, TCtx>;
+
+  subCommand(
+    names: string | string[],
+    descOrBuilder?: Builder | string,
+    version?: string
+  ): Command<any> {
+    if (typeof descOrBuilder === "function") {
+      const command = new Command(names);
+      descOrBuilder(command);
+      this.add(command);
+      return this;
     }
+
+    const command = new Command(names, descOrBuilder, version);
+    this.add(command);
+    return command;
+  }
+
+  /**
+   * Adds a subcommand that is only loaded once it is selected, like `() => import("./deploy")`.
+   * Until then, help screens only show its names and description.
+   * @param names The aliases of the subcommand.
+   * @param loader A function that loads the subcommand.
+   * @param desc The description of the subcommand.
+   * @returns this
+   */
+  lazySubCommand(
+    names: string | string[],
+    loader: Loader,
+    desc?: string
+  ): this {
+    const command = new Command(names, desc);
+    command.$loader = loader;
+    this.add(command);
+    return this;
+  }
+
+  /**
+   * Adds a built-in subcommand that prints a shell completion script, like `mycli completion bash`.
+   * @param names The names of the subcommand.
+   * @returns this
+   */
+  completion(names: string | string[] = "completion"): this {
+    return this.subCommand(names, (c) =>
+      c
+        .description("Prints a shell completion script.")
+        .input({
+          shell: new Positional("string").description(
+            `The shell: ${SHELLS.join(", ")}.`
+          ),
+        })
+        .action(async ({ shell }) => {
+          if (!SHELLS.includes(shell as Shell)) {
+            throw new InvalidValueError(c, "shell", shell, "unknown shell");
+          }
+          // lazy commands only know their options and subcommands once loaded
+          await this.loadAll();
+          console.log(generateCompletion(this, shell as Shell));
+        })
+    );
+  }
+
+  /**
+   * Completes a partially typed command line. This is what completion scripts call with `__complete`.
+   * @param argv The arguments typed so far. The last one is the word being completed.
+   * @returns The completion.
+   */
+  async complete(argv: string[]): Promise<Completion> {
+    return complete(this, argv);
+  }
+
+  /**
+   * Adds a plugin's subcommands and middleware to this command.
+   * Throws a `PluginError` if the plugin is incompatible or its subcommands collide with existing ones.
+   * @param plugin The plugin.
+   * @returns this
+   */
+  plugin(plugin: Plugin): this {
+    registerPlugin(this, plugin);
+    return this;
+  }
+
+  /**
+   * Discovers plugin packages in `node_modules` and plugin directories, and adds them to this command.
+   * Loaded plugins are listed in `$plugins`.
+   * @param opts Options for discovering plugins.
+   * @returns this
+   */
+  async plugins(opts?: PluginOpts): Promise<this> {
+    await loadPlugins(this, opts);
+    return this;
+  }
+
+  /**
+   * Adds a lifecycle hook, which runs for this command and its subcommands.
+   * Hooks of parents run before hooks of their subcommands.
+   * @param name When the hook runs.
+   * @param fn The hook.
+   * @returns this
+   */
+  hook(name: HookName, fn: HookFn): this {
+    (this.$hooks[name] ??= []).push(fn);
+    return this;
+  }
+
+  /**
+   * Runs executables on `PATH` named like `mycli-<name>` for arguments that aren't subcommands, like `git` does.
+   * @param opts Options for dispatching to external subcommands.
+   * @returns this
+   */
+  external(opts: ExternalOpts = {}): this {
+    this.$external = opts;
+    return this;
+  }
+
+  /**
+   * Replaces arguments like `@args.txt` with the arguments in that file when this command is run.
+   * Use `@@` for arguments that start with `@`.
+   * @param opts Options for expanding argument files.
+   * @returns this
+   */
+  argFiles(opts: ArgFileOpts = {}): this {
+    this.$argFiles = opts;
+    return this;
+  }
+
+  /**
+   * Lists the external subcommands on `PATH`, if external dispatch is enabled.
+   * @returns The external subcommands.
+   */
+  async externalCommands(): Promise<ExternalCommand[]> {
+    if (!this.$external) return [];
+    this.$externalCommands ??= (
+      await listExternalCommands(externalPrefix(this))
+    ).filter((c) => !this.$children.has(c.name));
+    return this.$externalCommands;
+  }
+
+  /**
+   * Describes this command tree as JSON, for tooling like IDE plugins and docs pipelines.
+   * Lazy commands are described as placeholders, so call `loadAll()` first.
+   * @returns The manifest.
+   */
+  toManifest(): Manifest {
+    return toManifest(this);
+  }
+
+  /**
+   * Rebuilds a command tree from a manifest. Actions are placeholders that throw.
+   * @param manifest The manifest.
+   * @returns The root command.
+   */
+  static fromManifest(manifest: Manifest): Command {
+    return fromManifest(manifest);
+  }
+
+  /**
+   * Configures "did you mean...?" suggestions for this command and its subcommands.
+   * @param opts The suggestion options.
+   * @returns this
+   */
+  suggestions(opts: SuggestOpts): this {
+    this.$suggestions = opts;
+    return this;
+  }
+
+  /**
+   * Allows unknown options.
+   * @returns this
+   */
+  allowUnknownOptions(): this {
+    this.$allowUnknownOptions = true;
+    return this;
+  }
+
+  /**
+   * Forwards every argument after `--` as raw arguments, instead of parsing them as positionals.
+   * @returns this
+   */
+  passthrough(): this {
+    this.$passthrough = true;
     return this;
   }
 
   /**
-   * Creates a new subcommand and adds it.
-   * @param names The aliases of the subcommand.
-   * @param builder A builder to create the command.
-   */
-  subCommand(names: string | string[], builder: Builder): this;
-  /**
-   * Creates a new subcommand and adds it.
-   * @param names The aliases of the subcommand.
-   * @param desc The description of the subcommand.
-   * @param version The version of the subcommand.
+   * Reads options from environment variables, with names derived from the prefix, the command path and the option key.
+   * For example, the `region` option of `mycli deploy` becomes `MYCLI_DEPLOY_REGION`.
+   * @param prefix The prefix. Defaults to the name of this command.
+   * @returns this
    */
-  subCommand(
-    names: string | string[],
-    desc?: string,
-    version?: string
-  ): Command<any>;
-
-  subCommand(
-    names: string | string[],
-    descOrBuilder?: Builder | string,
-    version?: string
-  ): Command<any> {
-    if (typeof descOrBuilder === "function") {
-      const command = new Command(names);
-      descOrBuilder(command);
-      this.add(command);
-      return this;
-    }
-
-    const command = new Command(names, descOrBuilder, version);
-    this.add(command);
-    return command;
+  envPrefix(prefix?: string): this {
+    this.$envPrefix = prefix ?? this.$names[0];
+    return this;
   }
 
   /**
-   * Allows unknown options.
+   * Loads option values from configuration files. Values are merged with this precedence:
+   * command line, then environment variables, then project configuration, then user configuration, then defaults.
+   * Subcommands inherit the configuration, and read their values from sections named after them.
+   * @param opts Options for loading configuration files.
    * @returns this
    */
-  allowUnknownOptions(): this {
-    this.$allowUnknownOptions = true;
+  config(opts: ConfigOpts = {}): this {
+    this.$config = opts;
     return this;
   }
 
+  /**
+   * Gets the name of the environment variable that backs an option.
+   * @param key The key of the option.
+   * @param option The option.
+   * @returns The environment variable name, if there is one.
+   */
+  envName(key: string, option: Option<any, any, any>): string | undefined {
+    if (option.$env) return option.$env;
+
+    const path: string[] = [];
+    // eslint-disable-next-line -- necessary for traversing up the tree
+    let cmd: Command<any> | undefined = this;
+    while (cmd) {
+      if (cmd.$envPrefix !== undefined) {
+        return [cmd.$envPrefix, ...path, key]
+          .join("_")
+          .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+          .replace(/[^a-zA-Z0-9]+/g, "_")
+          .toUpperCase();
+      }
+      path.unshift(cmd.$names[0]);
+      cmd = cmd.$parent;
+    }
+    return undefined;
+  }
+
   /**
    * Parses a set of command-line arguments.
    * @param argv The arguments to parse.
+   * @param parseOpts Options for parsing.
    * @returns A parse result.
    */
-  async parse(argv: string[]): Promise<ParseResult<T>> {
+  async parse(
+    argv: string[],
+    parseOpts: ParseOpts = {}
+  ): Promise<ParseResult<T>> {
     // eslint-disable-next-line -- alias to this is necessary to go through the tree
     let command: Command<any> = this;
     let found = false;
     const input: Record<string, unknown> = {};
 
     const args: string[] = [];
-    const opts: Record<string, string> = {};
+    const opts: Record<string, string[]> = {};
+    const passthrough: string[] = [];
+    const deprecations = new Set<string>();
 
     const errors: ConvokerError[] = [];
     const map = command.buildInputMap();
 
+    // lazy commands are loaded once they are selected
+    async function load(cmd: Command<any>) {
+      if (!cmd.$loader) return cmd;
+      const loaded = await cmd.load();
+      for (const [key, entry] of loaded.buildInputMap(true)) {
+        map.set(key, entry);
+      }
+      return loaded;
+    }
+
     function getOption(key: string, isSpecial?: boolean) {
       const entry = map.get(key);
       if (!entry) {
         if (!command.$allowUnknownOptions && !isSpecial)
-          errors.push(new UnknownOptionError(command, key));
+          errors.push(
+            new UnknownOptionError(command, key, suggestOptions(key))
+          );
         return null;
       }
-      return entry.value as Option<any, any, any>;
+      const option = entry.value as Option<any, any, any>;
+      noteDeprecatedOption(key, option);
+      return option;
+    }
+
+    function noteDeprecatedOption(key: string, option: Option<any, any, any>) {
+      const flag = key.length === 1 ? `-${key}` : `--${key}`;
+      const deprecation = option.$deprecatedNames.get(key) ?? option.$deprecated;
+      if (deprecation) {
+        deprecations.add(`${flag} is deprecated: ${deprecation.message}`);
+      }
+    }
+
+    function suggestOptions(key: string) {
+      // single letters are all close to each other
+      if (key.length === 1) return [];
+      const names = ["help", "version"];
+      for (const [name, { value }] of map) {
+        if (typeof name !== "string" || name.length === 1) continue;
+        // hidden and deprecated names are not suggested
+        const option = value as Option<any, any, any>;
+        if (option.$hidden || option.$deprecatedNames.has(name)) continue;
+        names.push(name);
+      }
+      const { threshold } = findSuggestOpts(command);
+      return suggest(key, names, threshold).map((n) => `--${n}`);
+    }
+
+    function getNegatedOption(key: string) {
+      if (!key.startsWith("no-") || map.has(key)) return null;
+      const entry = map.get(key.slice(3));
+      if (
+        !entry ||
+        !(entry.value instanceof Option) ||
+        entry.value.$kind !== "boolean" ||
+        !entry.value.$negatable
+      )
+        return null;
+      return entry.value;
     }
 
     function setOption(
@@ -327,18 +1139,91 @@ export class Command<T extends Input = Input> {
       option: Option<any, any, any>,
       value?: string
     ) {
+      if (option.$kind === "count") {
+        // every occurrence counts, across aliases
+        for (const name of option.$names) (opts[name] ??= []).push("1");
+        return;
+      }
+
+      let result: string | undefined;
       if (option.$kind === "boolean") {
-        opts[key] = "true";
+        if (value !== undefined && option.$explicit) {
+          const bool = parseBoolean(value);
+          if (bool === undefined) {
+            errors.push(
+              new InvalidValueError(command, key, value, "expected a boolean")
+            );
+            return;
+          }
+          result = String(bool);
+        } else if (value !== undefined) {
+          // ignoring the value could do the opposite of what was asked, like `--foo=false`
+          errors.push(
+            new InvalidValueError(command, key, value, "no value expected")
+          );
+          return;
+        } else {
+          result = "true";
+        }
       } else if (value !== undefined) {
-        opts[key] = value;
+        result = value;
+      }
+
+      // write to every name, so occurrences add up across aliases
+      if (result !== undefined) {
+        for (const name of option.$names) {
+          // lists collect every occurrence, other options keep the last one
+          opts[name] = option.$list ? [...(opts[name] ?? []), result] : [result];
+        }
+      }
+    }
+
+    // `-` reads stdin and `@path` reads a file, for entries that opt in
+    let stdinKey: string | undefined;
+    async function readValue(
+      key: string,
+      entry: Option<any, any, any> | Positional<any, any, any>,
+      value: string
+    ) {
+      if (value === "-" && entry.$fromStdin) {
+        // stdin can only be read once
+        if (stdinKey !== undefined) {
+          throw new StdinConflictError(command, [...new Set([stdinKey, key])]);
+        }
+        stdinKey = key;
+        return readStdin();
+      }
+      if (value.startsWith("@") && entry.$fromFile) {
+        if (value.startsWith("@@")) return value.slice(1);
+        try {
+          return await readTextFile(value.slice(1));
+        } catch {
+          throw new ValueFileError(command, key, value.slice(1));
+        }
       }
+      return value;
     }
 
     let isVersion = false;
     let isHelp = false;
+    let noInput = false;
+    let terminated = false;
+    let external: ParseResult<T>["external"];
+    let configPath: string | undefined;
+    let configMissing = false;
     for (let i = 0; i < argv.length; i++) {
       const arg = argv[i];
-      if (arg.startsWith("--")) {
+      if (terminated) {
+        // everything after `--` is either forwarded or positional
+        if (command.$passthrough) {
+          passthrough.push(arg);
+        } else {
+          found = true;
+          args.push(arg);
+        }
+      } else if (arg === "--") {
+        terminated = true;
+      } else if (arg.startsWith("--")) {
         // --long[=value] or --long [value]
         const [key, value] = arg.slice(2).split("=");
 
@@ -349,6 +1234,30 @@ export class Command<T extends Input = Input> {
         } else if (key === "version") {
           isVersion = true;
           isSpecial = true;
+        } else if (key === "no-input") {
+          noInput = true;
+          isSpecial = true;
+        }
+
+        // --config <path>
+        const configOwner = findConfigOwner(command);
+        if (configOwner && key === (configOwner.$config!.flag ?? "config")) {
+          configPath = value ?? argv[++i];
+          if (configPath === undefined) {
+            // searching for files instead would silently ignore the flag
+            configMissing = true;
+            errors.push(
+              new ConfigFileError(command, undefined, `--${key} expects a path`)
+            );
+          }
+          continue;
+        }
+
+        const negated = getNegatedOption(key);
+        if (negated) {
+          noteDeprecatedOption(key.slice(3), negated);
+          for (const name of negated.$names) opts[name] = ["false"];
+          continue;
         }
 
         const option = getOption(key, isSpecial);
@@ -357,11 +1266,11 @@ export class Command<T extends Input = Input> {
             setOption(
               key,
               option,
-              option.$kind === "boolean" ? undefined : argv[++i]
+              isFlag(option) ? undefined : argv[++i]
             );
           else setOption(key, option, value);
         }
-      } else if (arg.startsWith("-")) {
+      } else if (arg.startsWith("-") && arg !== "-") {
         // -abc or -k[=value] or -k [value]
         const [shortKeys, value] = arg.slice(1).split("=");
         const chars = shortKeys.split("");
@@ -380,7 +1289,7 @@ export class Command<T extends Input = Input> {
           const option = getOption(char, isSpecial);
           if (!option) continue;
 
-          if (option.$kind !== "boolean" && usedValue === undefined) {
+          if (!isFlag(option) && usedValue === undefined) {
             usedValue = argv[++i];
           }
           setOption(char, option, usedValue);
@@ -389,23 +1298,93 @@ export class Command<T extends Input = Input> {
       } else {
         // positional
         if (command.$children.has(arg) && !found) {
-          command = command.$children.get(arg)!.command;
+          const { deprecated, ...entry } = command.$children.get(arg)!;
+          const child = await load(entry.command);
+          if (deprecated) {
+            deprecations.add(
+              `${command.fullCommandPath()} ${arg} is deprecated: ${deprecated.message}`
+            );
+          }
+          if (child.$deprecated) {
+            deprecations.add(
+              `${child.fullCommandPath()} is deprecated: ${child.$deprecated.message}`
+            );
+            // deprecated commands can forward to a sibling
+            const { replacement } = child.$deprecated;
+            const target = replacement && command.$children.get(replacement);
+            command = target ? await load(target.command) : child;
+          } else {
+            command = child;
+          }
           if (command.$theme) {
             setPromptTheme(command.$theme);
             setLogTheme(command.$theme);
           }
         } else {
+          // unknown subcommands may be executables on PATH
+          if (!found && command.$external) {
+            const path = await findExecutable(externalPrefix(command) + arg);
+            if (path) {
+              external = { name: arg, path, args: argv.slice(i + 1) };
+              break;
+            }
+          }
+
+          // an argument that looks like a subcommand may be a typo
+          if (!found && command.$children.size > 0) {
+            const { threshold, subcommandTypos } = findSuggestOpts(command);
+            const suggestions = suggest(
+              arg,
+              visibleChildNames(command),
+              threshold
+            );
+            if (subcommandTypos && suggestions.length > 0) {
+              errors.push(new UnknownCommandError(command, arg, suggestions));
+              found = true;
+              continue;
+            }
+          }
           found = true;
           args.push(arg);
         }
       }
     }
 
+    // Load configuration files, highest priority first
+    const configOwner = findConfigOwner(command);
+    const configs: { file: string; data: Record<string, unknown> }[] = [];
+    if (configOwner && !configMissing) {
+      const opts = configOwner.$config!;
+      try {
+        const files = await loadConfigFiles(
+          opts,
+          opts.name ?? configOwner.$names[0],
+          configPath
+        );
+        const path = commandPath(configOwner, command);
+        for (const file of files.reverse()) {
+          configs.push({ file: file.path, data: scopeConfig(file.data, path) });
+        }
+      } catch (e) {
+        if (!(e instanceof ConfigSyntaxError)) throw e;
+        errors.push(new ConfigFileError(command, e.file, e.message));
+      }
+    }
+
     // Apply user values, defaults, or enforce required
+    const sources: Record<string, ValueSource> = {};
+    const origins: Record<string, string> = {};
+    const missing: {
+      key: string;
+      entry: Option<any, any, any> | Positional<any, any, any>;
+    }[] = [];
     let index = 0;
     for (const key in command.$input) {
       const entry = command.$input[key];
       let rawValue: string | string[] | undefined;
+      let source: ValueSource = "cli";
+      let envName: string | undefined;
+      let config: { file: string; name: string; value: unknown } | undefined;
 
       if (entry instanceof Positional) {
         if (entry.$list) {
@@ -416,50 +1395,297 @@ export class Command<T extends Input = Input> {
             rawValue.length === 0 &&
             entry.$required
           ) {
-            errors.push(new MissingRequiredArgumentError(command, key, entry));
+            // handled like other missing values below
+            rawValue = undefined;
           }
         } else {
           rawValue = args[index++];
-          if (rawValue === undefined && entry.$required) {
-            errors.push(new MissingRequiredArgumentError(command, key, entry));
-          }
         }
       } else {
         for (const name of entry.$names) {
-          if (opts[name] !== undefined) {
-            rawValue = entry.$list
-              ? opts[name].split(entry.$separator ?? ",")
-              : opts[name];
-            break;
+          const values = opts[name];
+          if (values === undefined) continue;
+          if (entry.$kind === "count") {
+            rawValue = String(values.length);
+          } else if (entry.$list) {
+            rawValue = values.flatMap((v) => v.split(entry.$separator ?? ","));
+          } else {
+            rawValue = values[values.length - 1];
+          }
+          break;
+        }
+
+        // Fall back to the environment if the flag is absent
+        envName =
+          rawValue === undefined ? command.envName(key, entry) : undefined;
+        const envValue = envName ? getEnv(envName) : undefined;
+        if (envValue !== undefined) {
+          source = "env";
+          origins[key] = `env ${envName}`;
+          rawValue = entry.$list
+            ? envValue.split(entry.$separator ?? ",")
+            : envValue;
+        }
+
+        // Then to configuration files
+        if (rawValue === undefined) {
+          for (const { file, data } of configs) {
+            const name = [key, ...entry.$names].find(
+              (name) => data[name] !== undefined
+            );
+            if (name !== undefined) {
+              config = { file, name, value: data[name] };
+              break;
+            }
+          }
+        }
+      }
+
+      if (rawValue !== undefined && source === "cli" && !parseOpts.tolerant) {
+        try {
+          if (Array.isArray(rawValue)) {
+            const values: string[] = [];
+            for (const value of rawValue) {
+              values.push(await readValue(key, entry, value));
+            }
+            rawValue = values;
+          } else {
+            rawValue = await readValue(key, entry, rawValue);
           }
+        } catch (e) {
+          if (!(e instanceof ConvokerError)) throw e;
+          errors.push(e);
+          continue;
         }
       }
 
+      if (
+        entry instanceof Positional &&
+        entry.$deprecated &&
+        rawValue !== undefined &&
+        rawValue.length > 0
+      ) {
+        deprecations.add(`<${key}> is deprecated: ${entry.$deprecated.message}`);
+      }
+
       if (rawValue !== undefined) {
-        input[key] = await convert(entry.$kind, rawValue);
+        try {
+          input[key] = await convert(entry.$kind, rawValue);
+          sources[key] = source;
+        } catch (e) {
+          if (parseOpts.tolerant) {
+            // skip values that fail to convert
+          } else if (source === "env" && e instanceof InputValidationError) {
+            // environment values are never coerced, so say where they came from
+            errors.push(
+              new InvalidValueError(
+                command,
+                key,
+                [rawValue].flat().join(","),
+                e.messages.join(", "),
+                envName
+              )
+            );
+          } else if (entry.$kind instanceof Choices) {
+            const { $choices } = entry.$kind;
+            const value = [rawValue]
+              .flat()
+              .find((v) => !$choices.includes(v))!;
+            const { threshold } = findSuggestOpts(command);
+            errors.push(
+              new InvalidChoiceError(
+                command,
+                key,
+                value,
+                $choices,
+                suggest(value, $choices, threshold)
+              )
+            );
+          } else if (e instanceof InputValidationError) {
+            errors.push(
+              new InvalidValueError(
+                command,
+                key,
+                [rawValue].flat().join(","),
+                e.messages.join(", ")
+              )
+            );
+          } else {
+            throw e;
+          }
+        }
+      } else if (config) {
+        try {
+          input[key] = await convertConfigValue(entry, config.value);
+          sources[key] = "config";
+          origins[key] = `config ${config.file}`;
+        } catch (e) {
+          if (!(e instanceof InputValidationError)) throw e;
+          errors.push(
+            new ConfigValueError(
+              command,
+              config.file,
+              config.name,
+              e.messages.join(", ")
+            )
+          );
+        }
       } else if (entry.$default !== undefined) {
         input[key] = entry.$default;
+        sources[key] = "default";
       } else if (entry.$required) {
-        if (entry instanceof Option) {
-          errors.push(new MissingRequiredOptionError(command, key, entry));
+        // an implied value may still fill this in
+        missing.push({ key, entry });
+      }
+    }
+
+    const isPresent = (key: string) =>
+      sources[key] !== undefined && sources[key] !== "default";
+
+    // Forward values of deprecated entries to their replacements
+    for (const key in command.$input) {
+      const replacement = command.$input[key].$deprecated?.replacement;
+      if (
+        !replacement ||
+        !isPresent(key) ||
+        isPresent(replacement) ||
+        !(replacement in command.$input)
+      )
+        continue;
+      input[replacement] = input[key];
+      sources[replacement] = sources[key];
+      origins[replacement] = `deprecated ${key}`;
+    }
+
+    // Drop values that conflict with values from a higher-precedence source, so
+    // an environment variable doesn't conflict with a flag that overrides it
+    const rivals = (keys: string[]) => {
+      const present = keys.filter(isPresent);
+      const top = Math.max(...present.map((key) => PRECEDENCE[sources[key]]));
+      for (const key of present) {
+        if (PRECEDENCE[sources[key]] === top) continue;
+        const entry = command.$input[key];
+        delete origins[key];
+        if (entry.$default !== undefined) {
+          input[key] = entry.$default;
+          sources[key] = "default";
         } else {
-          errors.push(new MissingRequiredArgumentError(command, key, entry));
+          delete input[key];
+          delete sources[key];
+          if (entry.$required) missing.push({ key, entry });
         }
       }
+    };
+    for (const key in command.$input) {
+      const entry = command.$input[key];
+      if (!(entry instanceof Option)) continue;
+      for (const other of entry.$conflicts) rivals([key, other]);
+    }
+    for (const group of command.$groups) {
+      if (group.type !== "atLeastOne") rivals(group.keys);
+    }
+
+    // Apply implied values, which can imply further values
+    const implying = Object.keys(sources).filter(isPresent);
+    while (implying.length > 0) {
+      const key = implying.shift()!;
+      const entry = command.$input[key];
+      if (!(entry instanceof Option)) continue;
+      for (const [other, value] of Object.entries(entry.$implies)) {
+        if (isPresent(other) || !(other in command.$input)) continue;
+        input[other] = value;
+        sources[other] = "implied";
+        origins[other] = `implied by ${key}`;
+        implying.push(other);
+      }
+    }
+
+    // Prompt for what is still missing, unless the command line is wrong anyway
+    const prompting =
+      parseOpts.prompt &&
+      !noInput &&
+      !isHelp &&
+      !isVersion &&
+      errors.length === 0;
+    for (const { key, entry } of missing) {
+      if (isPresent(key)) continue;
+      if (prompting && entry.$prompt !== false) {
+        input[key] = await promptFor(key, entry);
+        sources[key] = "prompt";
+      } else if (entry instanceof Option) {
+        errors.push(new MissingRequiredOptionError(command, key, entry));
+      } else {
+        errors.push(new MissingRequiredArgumentError(command, key, entry));
+      }
+    }
+
+    // Enforce relationships between options
+    const conflicts = new Set<string>();
+    for (const key in command.$input) {
+      const entry = command.$input[key];
+      if (!(entry instanceof Option) || !isPresent(key)) continue;
+      for (const other of entry.$conflicts) {
+        const pair = [key, other].sort().join("\0");
+        if (isPresent(other) && !conflicts.has(pair)) {
+          conflicts.add(pair);
+          errors.push(new ConflictingOptionsError(command, [key, other]));
+        }
+      }
+      for (const other of entry.$requires) {
+        if (!isPresent(other)) {
+          errors.push(new MissingDependencyError(command, key, other));
+        }
+      }
+    }
+    for (const group of command.$groups) {
+      const present = group.keys.filter(isPresent);
+      if (group.type !== "atLeastOne" && present.length > 1) {
+        errors.push(new ConflictingOptionsError(command, present));
+      } else if (group.type !== "exclusive" && present.length === 0) {
+        errors.push(new MissingOneOfError(command, group.keys));
+      }
+    }
+
+    if (configOwner?.$config?.debug) {
+      for (const key in sources) {
+        const entry = command.$input[key];
+        const value =
+          entry instanceof Option && entry.$secret ? "***" : String(input[key]);
+        console.error(
+          `[convoker] ${key} = ${value} (${origins[key] ?? sources[key]})`
+        );
+      }
     }
 
     // Check for too many arguments
     const remainingArgs = args.slice(index);
     if (!command.$allowSurpassArgLimit && remainingArgs.length > 0) {
-      errors.push(new TooManyArgumentsError(command));
+      if (index === 0 && command.$children.size > 0) {
+        // the command takes no positionals, so the first one was meant as a subcommand
+        const { threshold } = findSuggestOpts(command);
+        errors.push(
+          new UnknownCommandError(
+            command,
+            args[0],
+            suggest(args[0], visibleChildNames(command), threshold)
+          )
+        );
+      } else {
+        errors.push(new TooManyArgumentsError(command));
+      }
     }
 
     return {
       input: input as InferInput<T>,
+      sources: sources as ParseResult<T>["sources"],
       command,
       errors,
       isVersion,
       isHelp,
+      passthrough,
+      deprecations: [...deprecations],
+      args,
+      external
     };
   }
 
@@ -530,87 +1756,26 @@ export class Command<T extends Input = Input> {
     for (const error of errors) {
       if (error instanceof ConvokerError) {
         if (!(error instanceof HelpAskedError)) error.print();
+        if (
+          (error instanceof UnknownOptionError ||
+            error instanceof UnknownCommandError ||
+            error instanceof InvalidChoiceError) &&
+          error.suggestions.length > 0
+        ) {
+          console.error(
+            `did you mean ${error.suggestions.map((s) => cyan(s)).join(", ")}?`
+          );
+        }
         printHelpScreen = true;
       } else {
         nonCliErrors.push(error);
       }
     }
 
-    if (nonCliErrors.length) throw nonCliErrors[0];
+    for (const error of nonCliErrors) console.error(error);
 
     if (!printHelpScreen) return;
-    const pad = (s: string, len: number) => s.padEnd(len, " ");
-
-    console.log(
-      `${bold("usage:")} ${cyan(this.fullCommandPath())} ${gray("[options] [arguments]")}`
-    );
-    if (this.$description) {
-      console.log(`${this.$description}`);
-    }
-
-    if (this.$version) {
-      console.log(`${bold("version")} ${this.$version}`);
-    }
-
-    // OPTIONS
-    const opts = Object.entries(this.$input)
-      .filter(([, entry]) => entry instanceof Option)
-      .map(([key, entry]) => ({ key, entry: entry as Option<any, any, any> }));
-
-    if (opts.length > 0) {
-      console.log(bold("options:"));
-      const longest = Math.max(
-        ...opts.map(({ entry }) => entry.$names.join(", ").length)
-      );
-      for (const { entry } of opts) {
-        const names = entry.$names
-          .map((n) => (n.length === 1 ? `-${n}` : `--${n}`))
-          .join(", ");
-        const line = `  ${cyan(pad(names, longest + 4))}${gray(entry.$description ?? "")}`;
-        console.log(line);
-      }
-    }
-
-    // POSITIONALS
-    const positionals = Object.entries(this.$input)
-      .filter(([, entry]) => entry instanceof Positional)
-      .map(([key, entry]) => ({
-        key,
-        entry: entry as Positional<any, any, any>,
-      }));
-
-    if (positionals.length > 0) {
-      console.log(bold("arguments:"));
-      const longest = Math.max(...positionals.map(({ key }) => key.length));
-      for (const { key, entry } of positionals) {
-        const name = entry.$required ? `<${key}>` : `[${key}]`;
-        const line = `  ${cyan(pad(name, longest + 4))}${gray(entry.$description ?? "")}`;
-        console.log(line);
-      }
-    }
-
-    // SUBCOMMANDS
-    if (this.$children.size > 0) {
-      console.log(bold("sub commands:"));
-      const deduped = Array.from(
-        new Map(
-          [...this.$children.values()].map((a) => [
-            a.command.$names[0],
-            a.command,
-          ])
-        ).values()
-      );
-
-      const longest = Math.max(...deduped.map((c) => c.$names[0].length));
-      for (const cmd of deduped) {
-        const line = `  ${cyan(pad(cmd.$names[0], longest + 4))}${gray(cmd.$description) ?? ""}`;
-        console.log(line);
-      }
-      console.log();
-      console.log(
-        `run '${cyan(`${this.fullCommandPath()} <command> --help`)}' for more info on a command.`
-      );
-    }
+    console.log(findHelpFormatter(this).format(this));
   }
 
   /**
@@ -623,6 +1788,9 @@ export class Command<T extends Input = Input> {
     errors: Error[],
     input?: Partial<InferInput<T>>
   ): Promise<this> {
+    // help screens list external subcommands
+    await this.externalCommands();
+
     // eslint-disable-next-line -- necessary for traversing up the tree
     let command: Command<any> = this;
     while (!command.$errorFn && command.$parent) {
@@ -638,11 +1806,17 @@ export class Command<T extends Input = Input> {
   }
 
   /**
-   * Runs a command.
+   * Runs a command, and resolves to its exit code:
+   * - 0 for help, version and actions that finish without returning an `ExitError`.
+   * - The exit code of an `ExitError` that actions return or throw.
+   * - 2 for usage errors, like unknown options, or the `exitCode` of other `ConvokerError`s.
+   * - 1 for other errors thrown by actions.
+   *
+   * Exit codes of errors can be overridden with `Command.exitCode`.
    * @param argv The arguments to run the command with. Defaults to your runtime's `argv` equivalent.
-   * @returns this
+   * @returns The exit code.
    */
-  async run(argv?: string[]): Promise<this> {
+  async run(argv?: string[]): Promise<number> {
     if (!argv) {
       argv =
         typeof Bun !== "undefined"
@@ -652,51 +1826,259 @@ export class Command<T extends Input = Input> {
             : (process.argv.slice(2) as string[]);
     }
 
-    const result = await this.parse(argv);
-    if (result.isHelp) {
-      result.command.handleErrors([new HelpAskedError(result.command)]);
-      return this;
-    } else if (result.isVersion) {
-      console.log(
-        `${result.command.fullCommandPath()} version ${result.command.$version}`
-      );
-      return this;
+    // Completion scripts call back into the program
+    if (argv[0] === "__complete") {
+      console.log(formatCompletion(await this.complete(argv.slice(1))));
+      return 0;
     }
 
+    const context: HookContext = {
+      command: this,
+      argv,
+      input: {},
+      errors: []
+    };
+    let code = 1;
+    try {
+      code = await this.runLifecycle(argv, context);
+    } finally {
+      try {
+        await runHooks(context.command, "onFinally", context);
+      } catch (e) {
+        // the run is over, so this is reported without changing its exit code
+        context.errors.push(e as Error);
+        await context.command.handleErrors([e as Error]);
+      }
+    }
+    return code;
+  }
+
+  /**
+   * Runs a command, and sets the exit code of the process to its exit code.
+   * @param argv The arguments to run the command with. Defaults to your runtime's `argv` equivalent.
+   */
+  async runAndExit(argv?: string[]): Promise<void> {
+    setExitCode(await this.run(argv));
+  }
+
+  private async runLifecycle(
+    argv: string[],
+    context: HookContext
+  ): Promise<number> {
     try {
+      await runHooks(this, "preParse", context);
+      if (this.$argFiles) {
+        try {
+          argv = await expandArgFiles(argv, this.$argFiles);
+        } catch (e) {
+          if (!(e instanceof ArgFileSyntaxError)) throw e;
+          throw new ArgFileError(this, e.file, e.line, e.reason);
+        }
+      }
+      const result = await this.parse(argv, { prompt: isInteractive() });
+      context.command = result.command;
+      context.input = result.input;
+      context.errors = [...result.errors];
+      if (result.command !== this) {
+        await runHooks(result.command, "preSubcommand", context);
+      }
+
+      for (const message of result.deprecations) {
+        if (warned.has(message)) continue;
+        warned.add(message);
+        await warn(message);
+      }
+      if (result.external) {
+        const { name, path, args } = result.external;
+        try {
+          return await spawnExternal(path, args);
+        } catch (e) {
+          throw new ExternalCommandError(result.command, name, path, e);
+        }
+      }
+      if (result.isHelp) {
+        const help = new HelpAskedError(result.command);
+        await result.command.handleErrors([help]);
+        return exitCodeOf(result.command, help);
+      } else if (result.isVersion) {
+        console.log(
+          `${result.command.fullCommandPath()} version ${result.command.$version}`
+        );
+        return 0;
+      }
+
       if (result.errors.length > 0) {
         await result.command.handleErrors(result.errors, result.input);
+        return exitCodeOf(result.command, result.errors[0]);
       } else if (!result.command.$fn) {
-        await result.command.handleErrors(
-          [new HelpAskedError(result.command), ...result.errors],
-          result.input
-        );
-      } else {
-        const middlewares = collectMiddlewares(result.command);
-        if (middlewares.length > 0) {
-          const runner = compose(middlewares);
-          // finalNext calls the command action with the same input
-          await runner(result.input, async () => {
-            await result.command.$fn?.(result.input);
-          });
-        } else {
-          await result.command.$fn(result.input);
-        }
+        // commands that only group subcommands need one, which is a usage error
+        const help =
+          result.command.$children.size > 0
+            ? new MissingCommandError(result.command)
+            : new HelpAskedError(result.command);
+        await result.command.handleErrors([help], result.input);
+        return exitCodeOf(result.command, help);
+      }
+
+      await runHooks(result.command, "preAction", context);
+      const controller = new AbortController();
+      const stopListening = onInterrupt(() =>
+        controller.abort(new Error("interrupted"))
+      );
+      const { stdin, stdout, stderr } = await getLogConfig();
+      const ctx: Context = {
+        command: result.command,
+        argv,
+        passthrough: result.passthrough,
+        signal: controller.signal,
+        stdin,
+        stdout,
+        stderr
+      };
+      let returned: unknown;
+      try {
+        const runner = compose(collectMiddlewares(result.command));
+        // finalNext calls the command action with the extended context
+        await runner(result.input, ctx, async (finalCtx) => {
+          returned = await result.command.$fn?.(result.input, finalCtx);
+        });
+      } finally {
+        stopListening();
       }
+      await runHooks(result.command, "postAction", context);
+      // other return values, like the length from `list.push(x)`, are ignored
+      if (returned instanceof ExitError) throw returned;
+      return 0;
     } catch (e) {
       if (!(e instanceof Error)) {
         console.warn(
           "[convoker] an error that is not instance of `Error` was thrown. this may cause undefined behavior."
         );
       }
-      await result.command.handleErrors([e as Error]);
+      // hooks and parsing can fail before a subcommand is selected
+      const { command } = context;
+      context.errors.push(e as Error);
+      if (e instanceof ExitError) {
+        if (e.message) console.error(e.message);
+      } else {
+        await command.handleErrors([e as Error]);
+      }
+      return exitCodeOf(command, e as Error);
     }
-    return this;
   }
 }
 
+// deprecation warnings are only printed once per process
+const warned = new Set<string>();
+// lazy commands that are being loaded, so concurrent loads share one import
+const loads = new WeakMap<Command<any>, Promise<Command<any>>>();
+
+function externalPrefix(cmd: Command<any>) {
+  return cmd.$external?.prefix ?? `${pageName(cmd)}-`;
+}
+
+function visibleChildNames(cmd: Command<any>) {
+  const names: string[] = [];
+  for (const [name, { command, deprecated }] of cmd.$children) {
+    if (!command.$hidden && !deprecated) names.push(name);
+  }
+  return names;
+}
+
+async function promptFor(
+  key: string,
+  entry: Option<any, any, any> | Positional<any, any, any>
+): Promise<unknown> {
+  const opts = entry.$prompt || {};
+  const message = opts.message ?? entry.$description ?? key;
+  const kind = entry.$kind;
+  const type =
+    opts.type ??
+    (kind instanceof Choices
+      ? "select"
+      : kind === "boolean"
+        ? "confirm"
+        : entry instanceof Option && entry.$secret
+          ? "password"
+          : "text");
+
+  while (true) {
+    let answer: string;
+    if (type === "select" && kind instanceof Choices) {
+      answer = await select({
+        message,
+        options: kind.$choices.map((c: string) => ({ label: c, value: c }))
+      });
+    } else if (type === "confirm") {
+      answer = String(await confirm({ message }));
+    } else if (type === "password") {
+      answer = await password({ message });
+    } else {
+      answer = await text({ message });
+    }
+
+    // answers are converted like values from the command line
+    const separator = entry instanceof Option ? entry.$separator : undefined;
+    const value = entry.$list
+      ? answer.split(separator ?? ",").filter(Boolean)
+      : answer;
+    try {
+      return await convert(kind, value);
+    } catch (e) {
+      if (!(e instanceof InputValidationError)) throw e;
+      console.error(e.messages.join("\n"));
+    }
+  }
+}
+
+function exitCodeOf(cmd: Command<any>, error: Error) {
+  let current: Command<any> | undefined = cmd;
+  while (current) {
+    const code = current.$exitCodeFn?.(error);
+    if (code !== undefined) return code;
+    current = current.$parent;
+  }
+  if (error instanceof ConvokerError) return error.exitCode;
+  if (error instanceof ExitError) return error.code;
+  return 1;
+}
+
+function findConfigOwner(cmd: Command<any>) {
+  let current: Command<any> | undefined = cmd;
+  while (current && !current.$config) {
+    current = current.$parent;
+  }
+  return current;
+}
+
+function findHelpFormatter(cmd: Command<any>): HelpFormatter {
+  let current: Command<any> | undefined = cmd;
+  while (current && !current.$helpFormatter) {
+    current = current.$parent;
+  }
+  return current?.$helpFormatter ?? new DefaultHelpFormatter();
+}
+
+function findSuggestOpts(cmd: Command<any>): SuggestOpts {
+  let current: Command<any> | undefined = cmd;
+  while (current && !current.$suggestions) {
+    current = current.$parent;
+  }
+  return current?.$suggestions ?? {};
+}
+
+function commandPath(from: Command<any>, to: Command<any>) {
+  const path: string[] = [];
+  let current: Command<any> | undefined = to;
+  while (current && current !== from) {
+    path.unshift(current.$names[0]);
+    current = current.$parent;
+  }
+  return path;
+}
+
 function collectMiddlewares(cmd: Command<any>) {
-  const middlewares: MiddlewareFn<any>[] = [];
+  const middlewares: MiddlewareFn<any, any, any>[] = [];
   let current: Command<any> | undefined = cmd;
   while (current) {
     if (current.$middlewares.length) {
@@ -707,24 +2089,47 @@ function collectMiddlewares(cmd: Command<any>) {
   return middlewares;
 }
 
-function compose(mws: MiddlewareFn<any>[]) {
-  return (input: InferInput<any>, finalNext?: () => Promise<any>) => {
+async function runHooks(
+  cmd: Command<any>,
+  name: HookName,
+  context: HookContext
+) {
+  const hooks: HookFn[] = [];
+  let current: Command<any> | undefined = cmd;
+  while (current) {
+    hooks.unshift(...(current.$hooks[name] ?? []));
+    current = current.$parent;
+  }
+  for (const hook of hooks) await hook(context);
+}
+
+function compose(mws: MiddlewareFn<any, any, any>[]) {
+  return (
+    input: InferInput<any>,
+    ctx: Context,
+    finalNext?: (ctx: Context) => Promise<any>
+  ) => {
     let index = -1;
-    const dispatch = (i: number): Promise<any> => {
+    const dispatch = (i: number, ctx: Context): Promise<any> => {
       if (i <= index)
         return Promise.reject(new Error("next() called multiple times"));
       index = i;
       const fn = mws[i];
       if (!fn) {
         // when middlewares exhausted call finalNext if provided
-        return finalNext ? finalNext() : Promise.resolve();
+        return finalNext ? finalNext(ctx) : Promise.resolve();
       }
+      const next: NextFn = async (ext) => {
+        // extensions are visible to every later middleware and the action
+        await dispatch(i + 1, ext ? { ...ctx, ...ext } : ctx);
+        return { ext: ext ?? ({} as any) };
+      };
       try {
-        return Promise.resolve(fn(input, () => dispatch(i + 1)));
+        return Promise.resolve(fn(input, ctx, next));
       } catch (err) {
         return Promise.reject(err);
       }
     };
-    return dispatch(0);
+    return dispatch(0, ctx);
   };
 }
@@ -0,0 +1,796 @@
+import type { Command } from "./command";
+import {
+  Choices,
+  isFlag,
+  Option,
+  Positional,
+  type CompletionValue,
+} from "./input";
+import { childCommands, inputEntries, visibleNames } from "./tree";
+
+/**
+ * A shell that completion scripts can be generated for.
+ */
+export type Shell = "bash" | "zsh" | "fish" | "powershell";
+
+/**
+ * Every shell that completion scripts can be generated for.
+ */
+export const SHELLS: Shell[] = ["bash", "zsh", "fish", "powershell"];
+
+/**
+ * A completion candidate.
+ */
+interface Candidate {
+  /**
+   * The names of the candidate, like `--region` and `-r`.
+   */
+  names: string[];
+  /**
+   * The description of the candidate.
+   */
+  description: string;
+  /**
+   * If the candidate takes a value. Only applies to options.
+   */
+  takesValue: boolean;
+}
+
+/**
+ * A command in the tree, flattened for completion scripts.
+ */
+interface Node {
+  /**
+   * The command path, like `mycli deploy`.
+   */
+  path: string;
+  /**
+   * The subcommands, with every alias.
+   */
+  subcommands: Candidate[];
+  /**
+   * The options, including built-in ones like `--help`.
+   */
+  options: Candidate[];
+}
+
+/**
+ * Options for generating completion scripts.
+ */
+export interface CompletionOpts {
+  /**
+   * If the script should call back into the program with `__complete`, to compute candidates at runtime.
+   * Defaults to `true` if any option or positional in the tree has a `complete` callback, or a command isn't loaded yet.
+   */
+  dynamic?: boolean;
+}
+
+/**
+ * The result of completing a partially typed command line.
+ */
+export interface Completion {
+  /**
+   * The candidates.
+   */
+  candidates: { value: string; description?: string }[];
+  /**
+   * If the shell should fall back to completing file paths.
+   */
+  files: boolean;
+}
+
+/**
+ * Generates a completion script for a command tree.
+ * @param command The root command.
+ * @param shell The shell to generate the script for.
+ * @param opts Options for generating the script.
+ * @returns The completion script.
+ */
+export function generateCompletion(
+  command: Command<any>,
+  shell: Shell,
+  opts: CompletionOpts = {},
+): string {
+  const name = command.$names[0];
+  if (opts.dynamic ?? hasDynamicCompletions(command)) {
+    return dynamicScript(name, shell);
+  }
+
+  const nodes = collectNodes(command);
+  switch (shell) {
+    case "bash":
+      return bash(name, nodes);
+    case "zsh":
+      return zsh(name, nodes);
+    case "fish":
+      return fish(name, nodes);
+    case "powershell":
+      return powershell(name, nodes);
+  }
+}
+
+/**
+ * Walks a command tree, collecting every command.
+ * @param command The command to start at.
+ * @param path The path of the command.
+ * @returns The flattened commands.
+ */
+function collectNodes(command: Command<any>, path = command.$names[0]): Node[] {
+  const children = childCommands(command);
+  const nodes: Node[] = [
+    {
+      path,
+      options: optionCandidates(command),
+      subcommands: children.map((child) => ({
+        names: visibleNames(child),
+        description: child.$description ?? "",
+        takesValue: false,
+      })),
+    },
+  ];
+  for (const child of children) {
+    nodes.push(...collectNodes(child, `${path} ${child.$names[0]}`));
+  }
+  return nodes;
+}
+
+/**
+ * Gets the options of a command, including built-in ones.
+ * @param command The command.
+ * @returns The options.
+ */
+function optionCandidates(command: Command<any>): Candidate[] {
+  const options: Candidate[] = [];
+  for (const [, entry] of inputEntries(command)) {
+    if (!(entry instanceof Option)) continue;
+
+    const visible = visibleNames(entry);
+    const names = visible.map((n) => (n.length === 1 ? `-${n}` : `--${n}`));
+    if (entry.$kind === "boolean" && entry.$negatable) {
+      names.push(
+        ...visible.filter((n) => n.length > 1).map((n) => `--no-${n}`),
+      );
+    }
+    options.push({
+      names,
+      description: entry.$description ?? "",
+      takesValue: !isFlag(entry),
+    });
+  }
+
+  options.push({
+    names: ["--help", "-h"],
+    description: "Show help",
+    takesValue: false,
+  });
+  if (command.$version) {
+    options.push({
+      names: ["--version", "-V"],
+      description: "Show version",
+      takesValue: false,
+    });
+  }
+  return options;
+}
+
+/**
+ * Checks if any option or positional in a command tree computes completions at runtime.
+ * Lazy commands count too, since what they take is only known once they are loaded.
+ * @param command The command.
+ * @returns If the tree has dynamic completions.
+ */
+function hasDynamicCompletions(command: Command<any>): boolean {
+  return (
+    command.$loader !== undefined ||
+    Object.values(command.$input).some(
+      (entry) =>
+        (entry instanceof Option || entry instanceof Positional) &&
+        entry.$complete,
+    ) ||
+    childCommands(command).some(hasDynamicCompletions)
+  );
+}
+
+/**
+ * Creates an identifier for shell functions.
+ * @param name The name of the program.
+ * @returns The identifier.
+ */
+function identifier(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_]/g, "_");
+}
+
+/**
+ * Quotes a string for POSIX shells.
+ * @param str The string.
+ * @returns The quoted string.
+ */
+function quote(str: string): string {
+  return `'${str.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Quotes a string for PowerShell.
+ * @param str The string.
+ * @returns The quoted string.
+ */
+function quotePwsh(str: string): string {
+  return `'${str.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Generates the transitions between command paths, from `path:name` to the next path.
+ * @param nodes The flattened commands.
+ * @returns The transitions.
+ */
+function transitions(nodes: Node[]): [string[], string][] {
+  return nodes.flatMap((node) =>
+    node.subcommands.map(
+      (sub) =>
+        [
+          sub.names.map((n) => `${node.path}:${n}`),
+          `${node.path} ${sub.names[0]}`,
+        ] as [string[], string],
+    ),
+  );
+}
+
+/**
+ * Gets every option name that takes a value.
+ * @param node The command.
+ * @returns The option names.
+ */
+function valued(node: Node): string[] {
+  return node.options.filter((o) => o.takesValue).flatMap((o) => o.names);
+}
+
+/**
+ * Generates a bash completion script.
+ * @param name The name of the program.
+ * @param nodes The flattened commands.
+ * @returns The script.
+ */
+function bash(name: string, nodes: Node[]): string {
+  const fn = `_${identifier(name)}_completions`;
+  const lines = [
+    `# bash completion for ${name}`,
+    `${fn}() {`,
+    `  local cur="\${COMP_WORDS[COMP_CWORD]}"`,
+    `  local prev="\${COMP_WORDS[COMP_CWORD-1]}"`,
+    `  local cmdpath=${quote(name)}`,
+    `  local i`,
+    `  for ((i = 1; i < COMP_CWORD; i++)); do`,
+    `    case "$cmdpath:\${COMP_WORDS[i]}" in`,
+    ...transitions(nodes).map(
+      ([from, to]) =>
+        `      ${from.map(quote).join("|")}) cmdpath=${quote(to)} ;;`,
+    ),
+    `    esac`,
+    `  done`,
+    ``,
+    `  local subcommands="" options="" valued=""`,
+    `  case "$cmdpath" in`,
+    ...nodes.map((node) =>
+      [
+        `    ${quote(node.path)})`,
+        `      subcommands=${quote(node.subcommands.flatMap((s) => s.names).join(" "))}`,
+        `      options=${quote(node.options.flatMap((o) => o.names).join(" "))}`,
+        `      valued=${quote(valued(node).join(" "))}`,
+        `      ;;`,
+      ].join("\n"),
+    ),
+    `  esac`,
+    ``,
+    `  if [[ " $valued " == *" $prev "* ]]; then`,
+    `    COMPREPLY=($(compgen -f -- "$cur"))`,
+    `  elif [[ "$cur" == -* ]]; then`,
+    `    COMPREPLY=($(compgen -W "$options" -- "$cur"))`,
+    `  else`,
+    `    COMPREPLY=($(compgen -W "$subcommands" -- "$cur"))`,
+    `  fi`,
+    `}`,
+    `complete -o default -F ${fn} ${name}`,
+  ];
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Generates a zsh completion script.
+ * @param name The name of the program.
+ * @param nodes The flattened commands.
+ * @returns The script.
+ */
+function zsh(name: string, nodes: Node[]): string {
+  const fn = `_${identifier(name)}`;
+  // `_describe` uses colons to separate names and descriptions
+  const describe = (names: string[], description: string) =>
+    names.map((n) =>
+      quote(
+        description
+          ? `${n.replace(/:/g, "\\:")}:${description}`
+          : n.replace(/:/g, "\\:"),
+      ),
+    );
+
+  const lines = [
+    `#compdef ${name}`,
+    `${fn}() {`,
+    `  local cmdpath=${quote(name)}`,
+    `  local i`,
+    `  for ((i = 2; i < CURRENT; i++)); do`,
+    `    case "$cmdpath:\${words[i]}" in`,
+    ...transitions(nodes).map(
+      ([from, to]) =>
+        `      ${from.map(quote).join("|")}) cmdpath=${quote(to)} ;;`,
+    ),
+    `    esac`,
+    `  done`,
+    ``,
+    `  local -a subcommands options valued`,
+    `  case "$cmdpath" in`,
+    ...nodes.map((node) =>
+      [
+        `    ${quote(node.path)})`,
+        `      subcommands=(${node.subcommands.flatMap((s) => describe(s.names, s.description)).join(" ")})`,
+        `      options=(${node.options.flatMap((o) => describe(o.names, o.description)).join(" ")})`,
+        `      valued=(${valued(node).map(quote).join(" ")})`,
+        `      ;;`,
+        ``,
+      ].join("\n"),
+    ),
+    `  esac`,
+    ``,
+    `  if (( \${valued[(Ie)\${words[CURRENT-1]}]} )); then`,
+    `    _files`,
+    `  elif [[ "\${words[CURRENT]}" == -* ]]; then`,
+    `    _describe -t options 'option' options`,
+    `  else`,
+    `    _describe -t commands 'command' subcommands`,
+    `  fi`,
+    `}`,
+    `compdef ${fn} ${name}`,
+  ];
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Generates a fish completion script.
+ * @param name The name of the program.
+ * @param nodes The flattened commands.
+ * @returns The script.
+ */
+function fish(name: string, nodes: Node[]): string {
+  const fn = `__${identifier(name)}_path`;
+  const lines = [
+    `# fish completion for ${name}`,
+    `function ${fn}`,
+    `  set -l cmdpath ${quote(name)}`,
+    `  for token in (commandline -opc)[2..-1]`,
+    `    switch "$cmdpath:$token"`,
+    ...transitions(nodes).flatMap(([from, to]) => [
+      `      case ${from.map(quote).join(" ")}`,
+      `        set cmdpath ${quote(to)}`,
+    ]),
+    `    end`,
+    `  end`,
+    `  echo $cmdpath`,
+    `end`,
+    ``,
+    `complete -c ${name} -f`,
+  ];
+
+  for (const node of nodes) {
+    const condition = `-n ${quote(`test (${fn}) = ${quote(node.path)}`)}`;
+    for (const sub of node.subcommands) {
+      for (const n of sub.names) {
+        lines.push(
+          `complete -c ${name} ${condition} -a ${quote(n)}` +
+            (sub.description ? ` -d ${quote(sub.description)}` : ""),
+        );
+      }
+    }
+    for (const option of node.options) {
+      const flags = option.names
+        .map((n) =>
+          n.startsWith("--") ? `-l ${n.slice(2)}` : `-s ${n.slice(1)}`,
+        )
+        .join(" ");
+      lines.push(
+        `complete -c ${name} ${condition} ${flags}` +
+          (option.takesValue ? " -r -F" : "") +
+          (option.description ? ` -d ${quote(option.description)}` : ""),
+      );
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Generates a PowerShell completion script.
+ * @param name The name of the program.
+ * @param nodes The flattened commands.
+ * @returns The script.
+ */
+function powershell(name: string, nodes: Node[]): string {
+  // hashtables aren't flattened by `@()`, unlike nested arrays
+  const item = (n: string, description: string, takesValue: boolean) =>
+    `@{ Name = ${quotePwsh(n)}; Description = ${quotePwsh(description || n)}; TakesValue = $${takesValue} }`;
+
+  const lines = [
+    `# PowerShell completion for ${name}`,
+    `Register-ArgumentCompleter -Native -CommandName ${quotePwsh(name)} -ScriptBlock {`,
+    `  param($wordToComplete, $commandAst, $cursorPosition)`,
+    `  $cmdpath = ${quotePwsh(name)}`,
+    `  $previous = ''`,
+    `  $elements = @($commandAst.CommandElements | Where-Object { $_.Extent.EndOffset -lt $cursorPosition } | Select-Object -Skip 1)`,
+    `  foreach ($element in $elements) {`,
+    `    $token = $element.ToString()`,
+    `    switch -CaseSensitive ("$($cmdpath):$token") {`,
+    ...transitions(nodes).map(
+      ([from, to]) =>
+        `      { $_ -in @(${from.map(quotePwsh).join(", ")}) } { $cmdpath = ${quotePwsh(to)} }`,
+    ),
+    `    }`,
+    `    $previous = $token`,
+    `  }`,
+    ``,
+    `  $subcommands = @()`,
+    `  $options = @()`,
+    `  switch -CaseSensitive ($cmdpath) {`,
+    ...nodes.map((node) =>
+      [
+        `    ${quotePwsh(node.path)} {`,
+        `      $subcommands = @(${node.subcommands.flatMap((s) => s.names.map((n) => item(n, s.description, false))).join(", ")})`,
+        `      $options = @(${node.options.flatMap((o) => o.names.map((n) => item(n, o.description, o.takesValue))).join(", ")})`,
+        `    }`,
+      ].join("\n"),
+    ),
+    `  }`,
+    ``,
+    `  # fall back to file completion for option values`,
+    `  if ($options | Where-Object { $_.TakesValue -and $_.Name -ceq $previous }) { return }`,
+    `  $candidates = if ($wordToComplete.StartsWith('-')) { $options } else { $subcommands }`,
+    `  $candidates | Where-Object { $_.Name.StartsWith($wordToComplete) } | ForEach-Object {`,
+    `    [System.Management.Automation.CompletionResult]::new($_.Name, $_.Name, 'ParameterValue', $_.Description)`,
+    `  }`,
+    `}`,
+  ];
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Completes a partially typed command line. The last argument is the word being completed.
+ * @param command The root command.
+ * @param argv The arguments typed so far, without the program name.
+ * @returns The completion.
+ */
+export async function complete(
+  command: Command<any>,
+  argv: string[],
+): Promise<Completion> {
+  const words = argv.slice(0, -1);
+  const partial = argv[argv.length - 1] ?? "";
+  const result = await command.parse(words, { tolerant: true });
+  const target = result.command;
+  const parsed = result.input as Record<string, unknown>;
+
+  // after `--`, everything is positional
+  const terminated = words.includes("--");
+  if (!terminated) {
+    // the value of the previous option, like `--region <partial>`
+    const pending = pendingOption(target, words[words.length - 1]);
+    if (pending) return completeValue(pending, partial, "", parsed);
+
+    // the value after `=`, like `--region=<partial>` or `-r=<partial>`
+    const eq = partial.indexOf("=");
+    if (partial.startsWith("-") && eq >= 0) {
+      const name = partial.slice(0, eq).replace(/^--?/, "");
+      const option = findOption(
+        target,
+        partial.startsWith("--") ? name : name[name.length - 1],
+      );
+      if (!option) return { candidates: [], files: false };
+      return completeValue(
+        option,
+        partial.slice(eq + 1),
+        partial.slice(0, eq + 1),
+        parsed,
+      );
+    }
+
+    if (partial.startsWith("-")) {
+      return {
+        candidates: filter(
+          partial.length > 1 && !partial.startsWith("--")
+            ? clusterCandidates(target, partial)
+            : optionCandidates(target).flatMap((o) =>
+                o.names.map((value) => ({
+                  value,
+                  description: o.description || undefined,
+                })),
+              ),
+          partial,
+        ),
+        files: false,
+      };
+    }
+  }
+
+  // subcommands, if no positional was passed yet
+  const candidates: Completion["candidates"] = [];
+  if (!terminated && result.args.length === 0) {
+    for (const [value, { command: child, deprecated }] of target.$children) {
+      if (child.$hidden || deprecated) continue;
+      candidates.push({ value, description: child.$description });
+    }
+  }
+
+  let files = false;
+  const positional = positionalAt(target, result.args.length);
+  if (positional) {
+    const values = await completeValue(positional, partial, "", parsed);
+    candidates.push(...values.candidates);
+    files = values.files;
+  }
+  return { candidates: filter(candidates, partial), files };
+}
+
+/**
+ * Formats a completion in the line protocol that completion scripts read.
+ * Every candidate is on its own line, with an optional tab-separated description.
+ * The last line is a directive: `:files` to fall back to file paths, or `:default`.
+ * @param completion The completion.
+ * @returns The formatted completion.
+ */
+export function formatCompletion(completion: Completion): string {
+  const clean = (str: string) => str.replace(/[\t\r\n]+/g, " ");
+  const lines = completion.candidates.map(({ value, description }) =>
+    description ? `${clean(value)}\t${clean(description)}` : clean(value),
+  );
+  lines.push(completion.files ? ":files" : ":default");
+  return lines.join("\n");
+}
+
+/**
+ * Finds an option of a command or its parents by name.
+ * @param command The command.
+ * @param name The name of the option, without dashes.
+ * @returns The option, if it exists.
+ */
+function findOption(
+  command: Command<any>,
+  name: string,
+): Option<any, any, any> | undefined {
+  let current: Command<any> | undefined = command;
+  while (current) {
+    for (const entry of Object.values(current.$input)) {
+      if (entry instanceof Option && entry.$names.includes(name)) return entry;
+    }
+    current = current.$parent;
+  }
+  return undefined;
+}
+
+/**
+ * Gets the option that is waiting for a value, if the previous word is one.
+ * @param command The command.
+ * @param previous The previous word.
+ * @returns The option waiting for a value.
+ */
+function pendingOption(
+  command: Command<any>,
+  previous: string | undefined,
+): Option<any, any, any> | undefined {
+  if (!previous?.startsWith("-") || previous.includes("=")) return undefined;
+
+  // for short flag clusters, only the last flag can take a value
+  const option = previous.startsWith("--")
+    ? findOption(command, previous.slice(2))
+    : findOption(command, previous[previous.length - 1]);
+  return option && !isFlag(option) ? option : undefined;
+}
+
+/**
+ * Gets the positional at an index.
+ * @param command The command.
+ * @param index The index of the positional argument.
+ * @returns The positional, if there is one.
+ */
+function positionalAt(
+  command: Command<any>,
+  index: number,
+): Positional<any, any, any> | undefined {
+  let i = 0;
+  for (const entry of Object.values(command.$input)) {
+    if (!(entry instanceof Positional)) continue;
+    // lists take every remaining argument
+    if (i === index || (entry.$list && index >= i)) return entry;
+    i++;
+  }
+  return undefined;
+}
+
+/**
+ * Gets candidates for extending a short flag cluster, like `-ab` to `-abc`.
+ * @param command The command.
+ * @param partial The cluster typed so far.
+ * @returns The candidates.
+ */
+function clusterCandidates(
+  command: Command<any>,
+  partial: string,
+): Completion["candidates"] {
+  const used = partial.slice(1).split("");
+  const last = findOption(command, used[used.length - 1]);
+  if (!last) return [];
+
+  const candidates: Completion["candidates"] = [
+    { value: partial, description: last.$description },
+  ];
+  // a flag that takes a value ends the cluster
+  if (!isFlag(last)) return candidates;
+
+  for (const [, entry] of inputEntries(command)) {
+    if (!(entry instanceof Option) || !isFlag(entry)) continue;
+    const short = entry.$names.find((n) => n.length === 1);
+    // counts can be repeated, like `-vvv`
+    if (short && (!used.includes(short) || entry.$kind === "count")) {
+      candidates.push({
+        value: partial + short,
+        description: entry.$description,
+      });
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Completes the value of an option or positional.
+ * @param entry The option or positional.
+ * @param partial The value typed so far.
+ * @param prefix A prefix to add to every candidate, like `--region=`.
+ * @param parsed The input parsed so far.
+ * @returns The completion.
+ */
+async function completeValue(
+  entry: Option<any, any, any> | Positional<any, any, any>,
+  partial: string,
+  prefix: string,
+  parsed: Record<string, unknown>,
+): Promise<Completion> {
+  let values: CompletionValue[];
+  if (entry.$complete) {
+    values = await entry.$complete(partial, parsed);
+  } else if (entry.$kind instanceof Choices) {
+    values = [...entry.$kind.$choices];
+  } else if (entry.$kind === "boolean") {
+    values = ["true", "false"];
+  } else {
+    return { candidates: [], files: true };
+  }
+
+  const candidates = filter(
+    values.map((v) => (typeof v === "string" ? { value: v } : v)),
+    partial,
+  );
+  return {
+    candidates: candidates.map((c) => ({ ...c, value: prefix + c.value })),
+    files: false,
+  };
+}
+
+/**
+ * Filters candidates by what the user typed so far.
+ * @param candidates The candidates.
+ * @param partial What the user typed so far.
+ * @returns The matching candidates.
+ */
+function filter(
+  candidates: Completion["candidates"],
+  partial: string,
+): Completion["candidates"] {
+  return candidates.filter((c) => c.value.startsWith(partial));
+}
+
+/**
+ * Generates a completion script that calls back into the program with `__complete`.
+ * @param name The name of the program.
+ * @param shell The shell to generate the script for.
+ * @returns The script.
+ */
+function dynamicScript(name: string, shell: Shell): string {
+  const fn = identifier(name);
+  let lines: string[];
+  switch (shell) {
+    case "bash":
+      lines = [
+        `# bash completion for ${name}`,
+        `_${fn}_completions() {`,
+        `  local line="\${COMP_LINE:0:COMP_POINT}"`,
+        `  local -a words`,
+        `  read -ra words <<< "$line"`,
+        `  [[ -z "$line" || "$line" == *[[:space:]] ]] && words+=("")`,
+        `  # bash splits words on characters like \`=\`, so strip what is before the current word`,
+        `  local partial="\${words[\${#words[@]}-1]}"`,
+        `  local cur="\${COMP_WORDS[COMP_CWORD]}"`,
+        `  local prefix="\${partial%"$cur"}"`,
+        ``,
+        `  local IFS=$'\\n'`,
+        `  local -a lines`,
+        `  lines=($("\${words[0]}" __complete "\${words[@]:1}" 2>/dev/null))`,
+        `  (( \${#lines[@]} )) || return`,
+        `  local directive="\${lines[\${#lines[@]}-1]}"`,
+        `  local entry`,
+        `  COMPREPLY=()`,
+        `  for entry in "\${lines[@]:0:\${#lines[@]}-1}"; do`,
+        `    entry="\${entry%%$'\\t'*}"`,
+        `    COMPREPLY+=("\${entry#"$prefix"}")`,
+        `  done`,
+        `  if [[ "$directive" == ":files" ]]; then`,
+        `    COMPREPLY+=($(compgen -f -- "$cur"))`,
+        `  fi`,
+        `}`,
+        `complete -F _${fn}_completions ${name}`,
+      ];
+      break;
+    case "zsh":
+      lines = [
+        `#compdef ${name}`,
+        `_${fn}() {`,
+        `  local -a lines candidates`,
+        `  local line value description directive`,
+        `  lines=("\${(@f)$("\${words[1]}" __complete "\${(@)words[2,CURRENT]}" 2>/dev/null)}")`,
+        `  directive="\${lines[-1]}"`,
+        `  for line in "\${(@)lines[1,-2]}"; do`,
+        `    value="\${line%%$'\\t'*}"`,
+        `    description=""`,
+        `    [[ "$line" == *$'\\t'* ]] && description="\${line#*$'\\t'}"`,
+        `    candidates+=("\${value//:/\\\\:}\${description:+:$description}")`,
+        `  done`,
+        `  (( \${#candidates} )) && _describe -t values 'value' candidates`,
+        `  [[ "$directive" == ":files" ]] && _files`,
+        `  return 0`,
+        `}`,
+        `compdef _${fn} ${name}`,
+      ];
+      break;
+    case "fish":
+      lines = [
+        `# fish completion for ${name}`,
+        `function __${fn}_complete`,
+        `  set -l tokens (commandline -opc)`,
+        `  set -l lines ($tokens[1] __complete $tokens[2..-1] (commandline -ct | string collect -a) 2>/dev/null)`,
+        `  test (count $lines) -gt 0; or return`,
+        `  set -l directive $lines[-1]`,
+        `  set -e lines[-1]`,
+        `  for line in $lines`,
+        `    echo $line`,
+        `  end`,
+        `  if test "$directive" = ":files"`,
+        `    __fish_complete_path (commandline -ct)`,
+        `  end`,
+        `end`,
+        `complete -c ${name} -f -a '(__${fn}_complete)'`,
+      ];
+      break;
+    case "powershell":
+      lines = [
+        `# PowerShell completion for ${name}`,
+        `Register-ArgumentCompleter -Native -CommandName ${quotePwsh(name)} -ScriptBlock {`,
+        `  param($wordToComplete, $commandAst, $cursorPosition)`,
+        `  $program = $commandAst.CommandElements[0].ToString()`,
+        `  $words = @($commandAst.CommandElements | Where-Object { $_.Extent.EndOffset -lt $cursorPosition } | Select-Object -Skip 1 | ForEach-Object { $_.ToString() })`,
+        `  $lines = @(& $program __complete @words "$wordToComplete" 2>$null)`,
+        `  if ($lines.Count -eq 0) { return }`,
+        `  # an empty result falls back to file completion`,
+        `  $lines | Select-Object -SkipLast 1 | ForEach-Object {`,
+        `    $value, $description = $_ -split "\`t", 2`,
+        `    if (-not $description) { $description = $value }`,
+        `    [System.Management.Automation.CompletionResult]::new($value, $value, 'ParameterValue', $description)`,
+        `  }`,
+        `}`,
+      ];
+      break;
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,1153 @@
+import { InputValidationError } from "./error";
+import { Choices, convert, Option, Positional } from "./input";
+import { validate } from "./standard-schema";
+import {
+  cwd,
+  dirname,
+  getEnv,
+  homeDir,
+  isWindows,
+  joinPath,
+  merge,
+  readTextFile,
+} from "./utils";
+
+/**
+ * A configuration file format.
+ */
+export type ConfigFormat = "json" | "jsonc" | "toml" | "yaml" | "ini";
+
+/**
+ * Where a configuration file was found.
+ */
+export type ConfigScope = "explicit" | "project" | "user";
+
+/**
+ * Options for loading configuration files.
+ */
+export interface ConfigOpts {
+  /**
+   * The base name of configuration files. Defaults to the name of the command.
+   * With `mycli`, Convoker looks for files like `.mycli.json`, `mycli.config.toml` and `~/.config/mycli/config.yaml`.
+   */
+  name?: string;
+  /**
+   * The formats to look for, in order. Defaults to every format.
+   */
+  formats?: ConfigFormat[];
+  /**
+   * The long option that points at an explicit configuration file, or `false` to disable it. Defaults to `config`.
+   */
+  flag?: string | false;
+  /**
+   * If configuration files should be searched for by walking up from the current directory. Defaults to `true`.
+   */
+  project?: boolean;
+  /**
+   * If configuration files should be searched for in the XDG configuration directories, or `%APPDATA%` on Windows.
+   * Defaults to `true`.
+   */
+  user?: boolean;
+  /**
+   * If Convoker should print where each final value came from.
+   */
+  debug?: boolean;
+}
+
+/**
+ * A loaded configuration file.
+ */
+export interface ConfigFile {
+  /**
+   * The path of the file.
+   */
+  path: string;
+  /**
+   * Where the file was found.
+   */
+  scope: ConfigScope;
+  /**
+   * The parsed contents of the file.
+   */
+  data: Record<string, unknown>;
+}
+
+/**
+ * Thrown when a configuration file can't be read or parsed.
+ */
+export class ConfigSyntaxError extends Error {
+  /**
+   * The file the error happened in, if known.
+   */
+  file: string | undefined;
+  /**
+   * The line the error happened on, if known.
+   */
+  line: number | undefined;
+
+  /**
+   * Creates a new config syntax error.
+   * @param message The message.
+   * @param fileOrLine The file or the line.
+   */
+  constructor(message: string, fileOrLine?: string | number) {
+    super(
+      typeof fileOrLine === "number"
+        ? `${message} (line ${fileOrLine})`
+        : message,
+    );
+    if (typeof fileOrLine === "number") this.line = fileOrLine;
+    else this.file = fileOrLine;
+  }
+}
+
+/**
+ * File extensions for every format.
+ */
+const EXTENSIONS: Record<ConfigFormat, string[]> = {
+  json: ["json"],
+  jsonc: ["jsonc", "json5"],
+  toml: ["toml"],
+  yaml: ["yaml", "yml"],
+  ini: ["ini"],
+};
+
+/**
+ * Gets the format of a file from its extension.
+ * @param path The path of the file.
+ * @returns The format, or `undefined` if it is unknown.
+ */
+export function formatOf(path: string): ConfigFormat | undefined {
+  const ext = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  for (const [format, exts] of Object.entries(EXTENSIONS)) {
+    if (exts.includes(ext)) return format as ConfigFormat;
+  }
+  return undefined;
+}
+
+/**
+ * Parses the contents of a configuration file.
+ * @param text The contents of the file.
+ * @param format The format of the file.
+ * @returns The parsed contents.
+ */
+export function parseConfig(
+  text: string,
+  format: ConfigFormat,
+): Record<string, unknown> {
+  let data: unknown;
+  switch (format) {
+    case "json":
+      data = parseJson(text);
+      break;
+    case "jsonc":
+      data = parseJson(stripJsonComments(text));
+      break;
+    case "toml":
+      data = parseToml(text);
+      break;
+    case "yaml":
+      data = parseYaml(text) ?? {};
+      break;
+    case "ini":
+      data = parseIni(text);
+      break;
+  }
+
+  if (!isObject(data)) {
+    throw new ConfigSyntaxError("expected the file to contain an object");
+  }
+  return data;
+}
+
+/**
+ * Finds and loads configuration files, from lowest to highest priority.
+ * If an explicit path is passed, only that file is loaded.
+ * @param opts Options for loading configuration files.
+ * @param name The base name of configuration files.
+ * @param explicit An explicit path.
+ * @returns The loaded files.
+ */
+export async function loadConfigFiles(
+  opts: ConfigOpts,
+  name: string,
+  explicit?: string,
+): Promise<ConfigFile[]> {
+  if (explicit !== undefined) {
+    return [await loadConfigFile(explicit, "explicit")];
+  }
+
+  const formats = opts.formats ?? (Object.keys(EXTENSIONS) as ConfigFormat[]);
+  const exts = formats.flatMap((format) => EXTENSIONS[format]);
+  const files: ConfigFile[] = [];
+
+  if (opts.user ?? true) {
+    const home = homeDir();
+    // Windows has no system-wide default, and separates paths with `;` since they contain drive letters
+    const dirs = (getEnv("XDG_CONFIG_DIRS") ?? (isWindows ? "" : "/etc/xdg"))
+      .split(isWindows ? ";" : ":")
+      .filter(Boolean)
+      .reverse();
+    const configHome =
+      getEnv("XDG_CONFIG_HOME") ??
+      (isWindows ? getEnv("APPDATA") : undefined) ??
+      (home ? joinPath(home, ".config") : null);
+    if (configHome) dirs.push(configHome);
+
+    for (const dir of dirs) {
+      const file = await findFirst(
+        exts.map((ext) => joinPath(dir, name, `config.${ext}`)),
+        "user",
+      );
+      if (file) files.push(file);
+    }
+  }
+
+  if (opts.project ?? true) {
+    const candidates = exts.flatMap((ext) => [
+      `.${name}.${ext}`,
+      `${name}.config.${ext}`,
+    ]);
+
+    let dir = cwd();
+    while (true) {
+      const file = await findFirst(
+        candidates.map((candidate) => joinPath(dir, candidate)),
+        "project",
+      );
+      if (file) {
+        files.push(file);
+        break;
+      }
+
+      const parent = dirname(dir);
+      if (parent === dir) break;
+      dir = parent;
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Loads a single configuration file.
+ * @param path The path of the file.
+ * @param scope Where the file was found.
+ * @returns The loaded file.
+ */
+async function loadConfigFile(
+  path: string,
+  scope: ConfigScope,
+): Promise<ConfigFile> {
+  const format = formatOf(path);
+  if (!format) {
+    throw new ConfigSyntaxError("unknown configuration format", path);
+  }
+
+  let text: string;
+  try {
+    text = await readTextFile(path);
+  } catch {
+    throw new ConfigSyntaxError("can't read configuration file", path);
+  }
+
+  try {
+    return { path, scope, data: parseConfig(text, format) };
+  } catch (e) {
+    if (e instanceof ConfigSyntaxError) e.file = path;
+    throw e;
+  }
+}
+
+/**
+ * Loads the first file that exists.
+ * @param paths The candidate paths.
+ * @param scope Where the files are.
+ * @returns The loaded file, if any exist.
+ */
+async function findFirst(
+  paths: string[],
+  scope: ConfigScope,
+): Promise<ConfigFile | undefined> {
+  for (const path of paths) {
+    let text: string;
+    try {
+      text = await readTextFile(path);
+    } catch {
+      continue;
+    }
+
+    try {
+      return { path, scope, data: parseConfig(text, formatOf(path)!) };
+    } catch (e) {
+      if (e instanceof ConfigSyntaxError) e.file = path;
+      throw e;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Scopes configuration data to a command path. Sections named after subcommands
+ * override the values above them, so `{ region: "eu", deploy: { region: "us" } }`
+ * resolves `region` to `"us"` for the `deploy` subcommand.
+ * @param data The configuration data.
+ * @param path The command path, relative to the command that declared the configuration.
+ * @returns The scoped configuration data.
+ */
+export function scopeConfig(
+  data: Record<string, unknown>,
+  path: string[],
+): Record<string, unknown> {
+  let scoped = data;
+  for (const name of path) {
+    const section = scoped[name];
+    if (!isObject(section)) break;
+    scoped = merge(scoped, section) as Record<string, unknown>;
+  }
+  return scoped;
+}
+
+/**
+ * Converts a value from a configuration file to the type of an entry.
+ * @param entry The option or positional.
+ * @param value The value from the configuration file.
+ * @returns The converted value.
+ */
+export async function convertConfigValue(
+  entry: Option<any, any, any> | Positional<any, any, any>,
+  value: unknown,
+): Promise<unknown> {
+  if (entry.$list) {
+    const separator = entry instanceof Option ? entry.$separator : undefined;
+    const values =
+      typeof value === "string" ? value.split(separator ?? ",") : value;
+    if (!Array.isArray(values)) {
+      throw new InputValidationError(["expected a list"]);
+    }
+    return Promise.all(values.map((v) => convertOne(entry.$kind, v)));
+  }
+  return convertOne(entry.$kind, value);
+}
+
+/**
+ * Converts a single value from a configuration file.
+ * @param kind The kind to convert to.
+ * @param value The value.
+ * @returns The converted value.
+ */
+async function convertOne(kind: unknown, value: unknown): Promise<unknown> {
+  // formats like YAML and TOML read `version: 2` as a number, even when it is meant as text
+  const scalar =
+    typeof value === "number" ||
+    typeof value === "boolean" ||
+    typeof value === "bigint";
+  if (scalar && (kind === "string" || kind instanceof Choices)) {
+    value = String(value);
+  }
+  if (typeof kind !== "string") return validate(kind as any, value);
+  if (typeof value === "string") return convert(kind as any, value);
+
+  switch (kind) {
+    case "boolean":
+      if (typeof value === "boolean") return value;
+      break;
+    case "number":
+      if (typeof value === "number") return value;
+      break;
+    case "count":
+      if (typeof value === "number" && Number.isInteger(value) && value >= 0) {
+        return value;
+      }
+      break;
+    case "bigint":
+      if (typeof value === "bigint") return value;
+      if (typeof value === "number" && Number.isInteger(value)) {
+        return BigInt(value);
+      }
+      break;
+  }
+  throw new InputValidationError([`expected a ${kind}`]);
+}
+
+/**
+ * Checks if a value is an object, and not an array.
+ * @param value The value to check.
+ * @returns If the value is an object.
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+// -- json -- //
+
+/**
+ * Parses JSON, wrapping syntax errors.
+ * @param text The JSON text.
+ * @returns The parsed value.
+ */
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new ConfigSyntaxError((e as Error).message);
+  }
+}
+
+/**
+ * Strips comments and trailing commas from JSONC text.
+ * @param text The JSONC text.
+ * @returns Plain JSON text.
+ */
+function stripJsonComments(text: string): string {
+  let result = "";
+  let inString = false;
+  // where the last comma is in the result, until something other than whitespace or a comment follows it
+  let comma: number | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (!inString && !/\s/.test(char) && !isCommentStart(text, i)) {
+      if (comma !== undefined && (char === "}" || char === "]")) {
+        // drop trailing commas, keeping columns the same
+        result = `${result.slice(0, comma)} ${result.slice(comma + 1)}`;
+      }
+      comma = char === "," ? result.length : undefined;
+    }
+
+    if (inString) {
+      result += char;
+      if (char === "\\") result += text[++i] ?? "";
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") i++;
+      result += "\n";
+    } else if (char === "/" && text[i + 1] === "*") {
+      const end = text.indexOf("*/", i + 2);
+      // keep newlines, so line numbers stay the same
+      const comment = text.slice(i, end < 0 ? text.length : end + 2);
+      result += comment.replace(/[^\n]/g, " ");
+      i += comment.length - 1;
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+/**
+ * Checks if a comment starts at a position in JSON text.
+ * @param text The text.
+ * @param i The position.
+ * @returns If a comment starts there.
+ */
+function isCommentStart(text: string, i: number): boolean {
+  return text[i] === "/" && (text[i + 1] === "/" || text[i + 1] === "*");
+}
+
+// -- toml -- //
+
+/**
+ * Parses a subset of TOML: tables, arrays of tables, dotted keys, strings,
+ * numbers, booleans, arrays and inline tables. Dates are kept as strings.
+ * @param text The TOML text.
+ * @returns The parsed object.
+ */
+function parseToml(text: string): Record<string, unknown> {
+  const root: Record<string, unknown> = {};
+  let table = root;
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineNo = i + 1;
+    let line = stripHashComment(lines[i]).trim();
+    if (!line) continue;
+
+    if (line.startsWith("[[")) {
+      if (!line.endsWith("]]"))
+        throw new ConfigSyntaxError("unterminated table header", lineNo);
+      const keys = splitTomlKey(line.slice(2, -2), lineNo);
+      const parent = getTable(root, keys.slice(0, -1), lineNo);
+      const last = keys[keys.length - 1];
+      const array = (parent[last] ??= []);
+      if (!Array.isArray(array))
+        throw new ConfigSyntaxError(`${last} is not an array`, lineNo);
+      table = {};
+      array.push(table);
+      continue;
+    }
+
+    if (line.startsWith("[")) {
+      if (!line.endsWith("]"))
+        throw new ConfigSyntaxError("unterminated table header", lineNo);
+      table = getTable(root, splitTomlKey(line.slice(1, -1), lineNo), lineNo);
+      continue;
+    }
+
+    const eq = line.indexOf("=");
+    if (eq < 0) throw new ConfigSyntaxError("expected `key = value`", lineNo);
+    const keys = splitTomlKey(line.slice(0, eq), lineNo);
+
+    // values can span multiple lines, like arrays and multi-line strings
+    line = line.slice(eq + 1).trim();
+    while (!isCompleteTomlValue(line) && i + 1 < lines.length) {
+      line += "\n" + stripHashComment(lines[++i]);
+    }
+
+    const reader = new TomlReader(line, lineNo);
+    const value = reader.value();
+    reader.end();
+
+    const parent = getTable(table, keys.slice(0, -1), lineNo);
+    parent[keys[keys.length - 1]] = value;
+  }
+  return root;
+}
+
+/**
+ * Strips a `#` comment that is outside of a string.
+ * @param line The line.
+ * @returns The line without the comment.
+ */
+function stripHashComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === "\\" && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#") {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+/**
+ * Checks if a TOML value is complete, meaning all brackets and strings are closed.
+ * @param text The value text.
+ * @returns If the value is complete.
+ */
+function isCompleteTomlValue(text: string): boolean {
+  if ((text.match(/"""/g)?.length ?? 0) % 2 === 1) return false;
+  if ((text.match(/'''/g)?.length ?? 0) % 2 === 1) return false;
+
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === "\\" && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") quote = char;
+    else if (char === "[" || char === "{") depth++;
+    else if (char === "]" || char === "}") depth--;
+  }
+  return depth <= 0;
+}
+
+/**
+ * Splits a (possibly dotted and quoted) TOML key.
+ * @param text The key text.
+ * @param line The line number.
+ * @returns The key segments.
+ */
+function splitTomlKey(text: string, line: number): string[] {
+  const keys: string[] = [];
+  const reader = new TomlReader(text.trim(), line);
+  while (true) {
+    keys.push(reader.key());
+    reader.skipSpace();
+    if (reader.done()) break;
+    reader.expect(".");
+  }
+  return keys;
+}
+
+/**
+ * Gets (or creates) a nested table.
+ * @param root The root table.
+ * @param keys The path of the table.
+ * @param line The line number.
+ * @returns The table.
+ */
+function getTable(
+  root: Record<string, unknown>,
+  keys: string[],
+  line: number,
+): Record<string, unknown> {
+  let table = root;
+  for (const key of keys) {
+    let next = table[key] ?? (table[key] = {});
+    // `[a.b]` after `[[a]]` refers to the last table of the array
+    if (Array.isArray(next)) next = next[next.length - 1];
+    if (!isObject(next))
+      throw new ConfigSyntaxError(`${key} is not a table`, line);
+    table = next;
+  }
+  return table;
+}
+
+/**
+ * Reads TOML values and keys.
+ */
+class TomlReader {
+  /**
+   * The position of the reader.
+   */
+  pos = 0;
+
+  /**
+   * Creates a new TOML reader.
+   * @param text The text to read.
+   * @param line The line the text starts on.
+   */
+  constructor(
+    private text: string,
+    private line: number,
+  ) {}
+
+  /**
+   * Creates a syntax error at the current line.
+   * @param message The message.
+   * @returns The error.
+   */
+  error(message: string): ConfigSyntaxError {
+    const offset = this.text.slice(0, this.pos).split("\n").length - 1;
+    return new ConfigSyntaxError(message, this.line + offset);
+  }
+
+  /**
+   * Checks if the reader reached the end.
+   * @returns If the reader reached the end.
+   */
+  done(): boolean {
+    return this.pos >= this.text.length;
+  }
+
+  /**
+   * Skips whitespace, including newlines.
+   */
+  skipSpace() {
+    while (/\s/.test(this.text[this.pos] ?? "")) this.pos++;
+  }
+
+  /**
+   * Expects a character.
+   * @param char The character.
+   */
+  expect(char: string) {
+    this.skipSpace();
+    if (this.text[this.pos] !== char) throw this.error(`expected \`${char}\``);
+    this.pos++;
+  }
+
+  /**
+   * Expects the end of the text.
+   */
+  end() {
+    this.skipSpace();
+    if (!this.done()) throw this.error("unexpected trailing characters");
+  }
+
+  /**
+   * Reads a bare or quoted key.
+   * @returns The key.
+   */
+  key(): string {
+    this.skipSpace();
+    const char = this.text[this.pos];
+    if (char === '"' || char === "'") return this.string();
+
+    const match = /^[A-Za-z0-9_-]+/.exec(this.text.slice(this.pos));
+    if (!match) throw this.error("expected a key");
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  /**
+   * Reads a value.
+   * @returns The value.
+   */
+  value(): unknown {
+    this.skipSpace();
+    const char = this.text[this.pos];
+    if (char === '"' || char === "'") return this.string();
+    if (char === "[") return this.array();
+    if (char === "{") return this.inlineTable();
+
+    const match = /^[^\s,\]}]+/.exec(this.text.slice(this.pos));
+    if (!match) throw this.error("expected a value");
+    this.pos += match[0].length;
+
+    const raw = match[0];
+    if (raw === "true") return true;
+    if (raw === "false") return false;
+    if (/^[+-]?(inf|nan)$/.test(raw))
+      return raw.includes("nan")
+        ? NaN
+        : raw.startsWith("-")
+          ? -Infinity
+          : Infinity;
+
+    const num = raw.replace(/_/g, "");
+    if (/^[+-]?\d+$/.test(num)) return Number(num);
+    if (/^0x[0-9a-f]+$|^0o[0-7]+$|^0b[01]+$/i.test(num)) return Number(num);
+    if (/^[+-]?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(num)) return Number(num);
+    // dates and times
+    if (/^\d{2}(\d{2}-\d{2}-\d{2})?[T ]?[\d:.Z+-]*$/.test(raw)) return raw;
+    throw this.error(`invalid value: ${raw}`);
+  }
+
+  /**
+   * Reads a string.
+   * @returns The string.
+   */
+  string(): string {
+    const quote = this.text[this.pos];
+    const multiline = this.text.startsWith(quote.repeat(3), this.pos);
+    const delimiter = multiline ? quote.repeat(3) : quote;
+    this.pos += delimiter.length;
+    // a newline right after the opening delimiter is trimmed
+    if (multiline && this.text[this.pos] === "\n") this.pos++;
+
+    let result = "";
+    while (true) {
+      if (this.done()) throw this.error("unterminated string");
+      if (this.text.startsWith(delimiter, this.pos)) {
+        this.pos += delimiter.length;
+        return result;
+      }
+
+      const char = this.text[this.pos++];
+      if (char === "\n" && !multiline) throw this.error("unterminated string");
+      if (char === "\\" && quote === '"') {
+        result += this.escape();
+      } else {
+        result += char;
+      }
+    }
+  }
+
+  /**
+   * Reads an escape sequence, after the backslash.
+   * @returns The escaped character.
+   */
+  escape(): string {
+    const char = this.text[this.pos++];
+    switch (char) {
+      case "n":
+        return "\n";
+      case "t":
+        return "\t";
+      case "r":
+        return "\r";
+      case "b":
+        return "\b";
+      case "f":
+        return "\f";
+      case '"':
+      case "\\":
+        return char;
+      case "u":
+      case "U": {
+        const length = char === "u" ? 4 : 8;
+        const hex = this.text.slice(this.pos, this.pos + length);
+        this.pos += length;
+        return String.fromCodePoint(parseInt(hex, 16));
+      }
+      case "\n":
+        // line ending backslash trims the following whitespace
+        this.skipSpace();
+        return "";
+      default:
+        throw this.error(`invalid escape: \\${char}`);
+    }
+  }
+
+  /**
+   * Reads an array.
+   * @returns The array.
+   */
+  array(): unknown[] {
+    const result: unknown[] = [];
+    this.pos++;
+    while (true) {
+      this.skipSpace();
+      if (this.text[this.pos] === "]") {
+        this.pos++;
+        return result;
+      }
+
+      result.push(this.value());
+      this.skipSpace();
+      if (this.text[this.pos] === ",") this.pos++;
+      else if (this.text[this.pos] !== "]") throw this.error("expected `,`");
+    }
+  }
+
+  /**
+   * Reads an inline table.
+   * @returns The table.
+   */
+  inlineTable(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.pos++;
+    while (true) {
+      this.skipSpace();
+      if (this.text[this.pos] === "}") {
+        this.pos++;
+        return result;
+      }
+
+      const keys = [this.key()];
+      this.skipSpace();
+      while (this.text[this.pos] === ".") {
+        this.pos++;
+        keys.push(this.key());
+        this.skipSpace();
+      }
+      this.expect("=");
+      getTable(result, keys.slice(0, -1), this.line)[keys[keys.length - 1]] =
+        this.value();
+
+      this.skipSpace();
+      if (this.text[this.pos] === ",") this.pos++;
+      else if (this.text[this.pos] !== "}") throw this.error("expected `,`");
+    }
+  }
+}
+
+// -- yaml -- //
+
+/**
+ * A line of YAML.
+ */
+interface YamlLine {
+  /**
+   * The indentation of the line.
+   */
+  indent: number;
+  /**
+   * The content of the line, without indentation and comments.
+   */
+  text: string;
+  /**
+   * The line number.
+   */
+  line: number;
+}
+
+/**
+ * Parses a subset of YAML: block mappings and sequences, flow sequences and mappings,
+ * quoted and plain scalars, and literal (`|`) and folded (`>`) block scalars.
+ * @param text The YAML text.
+ * @returns The parsed value.
+ */
+function parseYaml(text: string): unknown {
+  const rawLines = text.split(/\r?\n/);
+  const lines: YamlLine[] = [];
+  for (let i = 0; i < rawLines.length; i++) {
+    const raw = rawLines[i];
+    if (/^(---|\.\.\.)\s*$/.test(raw)) continue;
+    const content = stripYamlComment(raw).trimEnd();
+    if (!content.trim()) continue;
+    const indent = content.length - content.trimStart().length;
+    if (content.slice(0, indent).includes("\t"))
+      throw new ConfigSyntaxError("tabs can't be used for indentation", i + 1);
+    lines.push({ indent, text: content.trimStart(), line: i + 1 });
+  }
+
+  let index = 0;
+
+  function isSequenceItem(line: YamlLine) {
+    return line.text === "-" || line.text.startsWith("- ");
+  }
+
+  function parseBlock(indent: number): unknown {
+    const line = lines[index];
+    if (!line || line.indent < indent) return null;
+    return isSequenceItem(line)
+      ? parseSequence(line.indent)
+      : parseMapping(line.indent);
+  }
+
+  function parseSequence(indent: number): unknown[] {
+    const result: unknown[] = [];
+    while (index < lines.length) {
+      const line = lines[index];
+      if (line.indent !== indent || !isSequenceItem(line)) {
+        if (line.indent > indent)
+          throw new ConfigSyntaxError("bad indentation", line.line);
+        break;
+      }
+
+      const rest = line.text.slice(1).trimStart();
+      if (!rest) {
+        index++;
+        result.push(parseBlock(indent + 1));
+      } else if (
+        isSequenceItem({ ...line, text: rest }) ||
+        findColon(rest) >= 0
+      ) {
+        // an inline mapping or sequence, like `- name: foo`
+        const offset = line.text.length - rest.length;
+        lines[index] = { ...line, indent: indent + offset, text: rest };
+        result.push(parseBlock(indent + offset));
+      } else {
+        index++;
+        result.push(parseScalar(rest, line.line));
+      }
+    }
+    return result;
+  }
+
+  function parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    while (index < lines.length) {
+      const line = lines[index];
+      if (line.indent < indent) break;
+      if (line.indent > indent || isSequenceItem(line))
+        throw new ConfigSyntaxError("bad indentation", line.line);
+
+      const colon = findColon(line.text);
+      if (colon < 0)
+        throw new ConfigSyntaxError("expected `key: value`", line.line);
+
+      const key = String(parseScalar(line.text.slice(0, colon), line.line));
+      const rest = line.text.slice(colon + 1).trim();
+      index++;
+
+      if (/^[|>][+-]?$/.test(rest)) {
+        result[key] = parseBlockScalar(rest, indent, line.line);
+      } else if (rest) {
+        result[key] = parseScalar(rest, line.line);
+      } else {
+        const next = lines[index];
+        if (next && next.indent > indent) {
+          result[key] = parseBlock(next.indent);
+        } else if (next && next.indent === indent && isSequenceItem(next)) {
+          // sequences can be at the same indentation as their key
+          result[key] = parseSequence(indent);
+        } else {
+          result[key] = null;
+        }
+      }
+    }
+    return result;
+  }
+
+  function parseBlockScalar(
+    header: string,
+    indent: number,
+    startLine: number,
+  ): string {
+    // block scalars keep blank lines and comments, so read the raw lines
+    const raw: string[] = [];
+    let i = startLine;
+    for (; i < rawLines.length; i++) {
+      const content = rawLines[i];
+      const lineIndent = content.length - content.trimStart().length;
+      if (content.trim() && lineIndent <= indent) break;
+      raw.push(content);
+    }
+    while (index < lines.length && lines[index].line <= i) index++;
+
+    while (raw.length && !raw[raw.length - 1].trim()) raw.pop();
+    const blockIndent = Math.min(
+      ...raw
+        .filter((l) => l.trim())
+        .map((l) => l.length - l.trimStart().length),
+    );
+    const body = raw.map((l) => l.slice(blockIndent));
+
+    let result = header.startsWith("|")
+      ? body.join("\n")
+      : body.join("\n").replace(/([^\n])\n(?=[^\n])/g, "$1 ");
+    if (!header.endsWith("-")) result += "\n";
+    return result;
+  }
+
+  const result = lines.length ? parseBlock(0) : null;
+  if (index < lines.length)
+    throw new ConfigSyntaxError("bad indentation", lines[index].line);
+  return result;
+}
+
+/**
+ * Strips a `#` comment that is outside of a string, and preceded by whitespace.
+ * @param line The line.
+ * @returns The line without the comment.
+ */
+function stripYamlComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === "\\" && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (
+      (char === '"' || char === "'") &&
+      /^\s*$|[\s:[{,-]$/.test(line.slice(0, i))
+    ) {
+      quote = char;
+    } else if (char === "#" && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+/**
+ * Finds the colon that separates a key from a value.
+ * @param text The text.
+ * @returns The index of the colon, or -1.
+ */
+function findColon(text: string): number {
+  let quote: string | null = null;
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === "\\" && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if ((char === '"' || char === "'") && i === 0) {
+      quote = char;
+    } else if (char === "[" || char === "{") {
+      depth++;
+    } else if (char === "]" || char === "}") {
+      depth--;
+    } else if (
+      char === ":" &&
+      depth === 0 &&
+      (i + 1 === text.length || text[i + 1] === " ")
+    ) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parses a YAML scalar or flow collection.
+ * @param text The text.
+ * @param line The line number.
+ * @returns The parsed value.
+ */
+function parseScalar(text: string, line: number): unknown {
+  text = text.trim();
+  if (text.startsWith("[") || text.startsWith("{")) {
+    const close = text[0] === "[" ? "]" : "}";
+    if (!text.endsWith(close))
+      throw new ConfigSyntaxError("unterminated flow collection", line);
+
+    const items = splitFlow(text.slice(1, -1)).filter((item) => item.trim());
+    if (close === "]") return items.map((item) => parseScalar(item, line));
+
+    const result: Record<string, unknown> = {};
+    for (const item of items) {
+      const colon = findColon(item.trim());
+      if (colon < 0) throw new ConfigSyntaxError("expected `key: value`", line);
+      const key = String(parseScalar(item.trim().slice(0, colon), line));
+      result[key] = parseScalar(item.trim().slice(colon + 1), line);
+    }
+    return result;
+  }
+
+  if (text.startsWith('"')) {
+    if (!text.endsWith('"') || text.length < 2)
+      throw new ConfigSyntaxError("unterminated string", line);
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new ConfigSyntaxError("invalid string", line);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (!text.endsWith("'") || text.length < 2)
+      throw new ConfigSyntaxError("unterminated string", line);
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+
+  if (text === "" || text === "~" || text === "null") return null;
+  if (text === "true" || text === "True" || text === "TRUE") return true;
+  if (text === "false" || text === "False" || text === "FALSE") return false;
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+  if (/^0x[0-9a-fA-F]+$|^0o[0-7]+$/.test(text)) return Number(text);
+  if (/^[-+]?\.inf$/i.test(text))
+    return text.startsWith("-") ? -Infinity : Infinity;
+  if (/^\.nan$/i.test(text)) return NaN;
+  return text;
+}
+
+/**
+ * Splits the items of a flow collection on top-level commas.
+ * @param text The text inside the brackets.
+ * @returns The items.
+ */
+function splitFlow(text: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === "\\" && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") quote = char;
+    else if (char === "[" || char === "{") depth++;
+    else if (char === "]" || char === "}") depth--;
+    else if (char === "," && depth === 0) {
+      items.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(text.slice(start));
+  return items;
+}
+
+// -- ini -- //
+
+/**
+ * Parses INI. Sections can be nested with dots, like `[deploy.prod]`.
+ * Values are kept as strings, and converted like command-line values.
+ * @param text The INI text.
+ * @returns The parsed object.
+ */
+function parseIni(text: string): Record<string, unknown> {
+  const root: Record<string, unknown> = {};
+  let section = root;
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith(";") || line.startsWith("#")) continue;
+
+    if (line.startsWith("[")) {
+      if (!line.endsWith("]"))
+        throw new ConfigSyntaxError("unterminated section header", i + 1);
+      section = getTable(
+        root,
+        line
+          .slice(1, -1)
+          .split(".")
+          .map((key) => key.trim()),
+        i + 1,
+      );
+      continue;
+    }
+
+    const match = /^([^=:]+?)\s*[=:]\s*(.*)$/.exec(line);
+    if (!match) throw new ConfigSyntaxError("expected `key = value`", i + 1);
+
+    let value = match[2];
+    if (/^(".*"|'.*')$/.test(value)) value = value.slice(1, -1);
+    section[match[1]] = value;
+  }
+  return root;
+}
@@ -0,0 +1,418 @@
+import type { Command } from "./command";
+import { usage } from "./help";
+import { Choices, Option, Positional, valueName } from "./input";
+import { childCommands, inputEntries, pageName, visibleNames } from "./tree";
+
+/**
+ * A format reference documentation can be generated in.
+ */
+export type DocsFormat = "markdown" | "html";
+
+/**
+ * Options for generating reference documentation.
+ */
+export interface DocsOpts {
+  /**
+   * The format of the documentation. Defaults to `markdown`.
+   */
+  format?: DocsFormat;
+  /**
+   * Generates one page per command path, instead of a single page with a section per command.
+   */
+  split?: boolean;
+  /**
+   * The title of the single page, or of the HTML documents. Defaults to the name of the root command.
+   */
+  title?: string;
+}
+
+/**
+ * A generated documentation page.
+ */
+export interface DocsPage {
+  /**
+   * The name of the page, like `mycli-deploy`.
+   */
+  name: string;
+  /**
+   * The file name of the page, like `mycli-deploy.md`.
+   */
+  file: string;
+  /**
+   * The contents of the page.
+   */
+  content: string;
+}
+
+/**
+ * A row in a table of options or positionals.
+ */
+interface Row {
+  /**
+   * The names, like `--region` and `-r`.
+   */
+  names: string[];
+  /**
+   * The kind of the value, like `string[]`.
+   */
+  kind: string;
+  /**
+   * The default value.
+   */
+  default: string | undefined;
+  /**
+   * If the value is required.
+   */
+  required: boolean;
+  /**
+   * The description.
+   */
+  description: string;
+}
+
+/**
+ * A command in the tree, flattened for documentation.
+ */
+interface Section {
+  /**
+   * The command.
+   */
+  command: Command<any>;
+  /**
+   * The name of the section, like `mycli-deploy`. Used for anchors and file names.
+   */
+  name: string;
+  /**
+   * The command path, like `mycli deploy`.
+   */
+  path: string;
+  /**
+   * The usage line.
+   */
+  usage: string;
+  /**
+   * The options.
+   */
+  options: Row[];
+  /**
+   * The positionals.
+   */
+  positionals: Row[];
+  /**
+   * The subcommands.
+   */
+  subcommands: Command<any>[];
+}
+
+/**
+ * Generates reference documentation for a command tree.
+ * The output only depends on the command tree, so it can be checked in and diffed.
+ * Lazy commands only have their names and description until they are loaded, so call `loadAll()` first.
+ * @param command The root command.
+ * @param opts Options for generating the documentation.
+ * @returns The pages. Unless `split` is set, there is a single page.
+ */
+export function generateDocs(
+  command: Command<any>,
+  opts: DocsOpts = {},
+): DocsPage[] {
+  const format = opts.format ?? "markdown";
+  const ext = format === "markdown" ? "md" : "html";
+  const title = opts.title ?? command.$names[0];
+  const sections = collectSections(command);
+
+  // links point at anchors on a single page, or at other pages
+  const link = (cmd: Command<any>) => {
+    const name = pageName(cmd);
+    return opts.split ? `${name}.${ext}` : `#${name}`;
+  };
+  const render = format === "markdown" ? markdown : html;
+
+  if (!opts.split) {
+    return [
+      {
+        name: pageName(command),
+        file: `${pageName(command)}.${ext}`,
+        content: render(title, sections, link, 2),
+      },
+    ];
+  }
+  return sections.map((section) => ({
+    name: section.name,
+    file: `${section.name}.${ext}`,
+    content: render(section.path, [section], link, 1),
+  }));
+}
+
+/**
+ * Walks a command tree, collecting every command.
+ * @param command The command to start at.
+ * @returns The sections.
+ */
+function collectSections(command: Command<any>): Section[] {
+  const entries = inputEntries(command);
+  const subcommands = childCommands(command);
+
+  const sections: Section[] = [
+    {
+      command,
+      name: pageName(command),
+      path: command.fullCommandPath(),
+      usage: usage(command),
+      options: entries.flatMap(([, entry]) =>
+        entry instanceof Option ? [row(entry, optionNames(entry))] : [],
+      ),
+      positionals: entries.flatMap(([key, entry]) =>
+        entry instanceof Positional ? [row(entry, [key])] : [],
+      ),
+      subcommands,
+    },
+  ];
+  for (const child of subcommands) {
+    sections.push(...collectSections(child));
+  }
+  return sections;
+}
+
+/**
+ * Gets the names of an option, with dashes.
+ * @param entry The option.
+ * @returns The names.
+ */
+function optionNames(entry: Option<any, any, any>): string[] {
+  return visibleNames(entry).map((n) => (n.length === 1 ? `-${n}` : `--${n}`));
+}
+
+/**
+ * Describes an option or positional for a table.
+ * @param entry The option or positional.
+ * @param names The names to show.
+ * @returns The row.
+ */
+function row(
+  entry: Option<any, any, any> | Positional<any, any, any>,
+  names: string[],
+): Row {
+  let kind =
+    entry.$kind instanceof Choices
+      ? entry.$kind.$choices.map((c) => JSON.stringify(c)).join(" | ")
+      : (valueName(entry) ?? entry.$kind);
+  if (entry.$list) {
+    kind = entry.$kind instanceof Choices ? `(${kind})[]` : `${kind}[]`;
+    if (entry instanceof Option) {
+      kind += ` (separated by "${entry.$separator ?? ","}")`;
+    }
+  }
+
+  const value = entry.$default;
+  return {
+    names,
+    kind,
+    default:
+      value === undefined
+        ? undefined
+        : Array.isArray(value)
+          ? value.join(",")
+          : String(value),
+    required: entry.$required && value === undefined,
+    description: [
+      entry.$description,
+      entry.$deprecated && `Deprecated: ${entry.$deprecated.message}`,
+    ]
+      .filter(Boolean)
+      .join(" "),
+  };
+}
+
+/**
+ * Gets the aliases of a command, without deprecated ones.
+ * @param command The command.
+ * @returns The aliases.
+ */
+function aliasesOf(command: Command<any>): string[] {
+  return visibleNames(command).filter((n) => n !== command.$names[0]);
+}
+
+/**
+ * Renders sections as Markdown.
+ * @param title The title of the page.
+ * @param sections The sections.
+ * @param link Gets the link to a command.
+ * @param level The heading level of each section.
+ * @returns The Markdown source.
+ */
+function markdown(
+  title: string,
+  sections: Section[],
+  link: (cmd: Command<any>) => string,
+  level: number,
+): string {
+  const cell = (text: string) =>
+    text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+  const code = (text: string) => `\`${text}\``;
+  const heading = (depth: number, text: string) =>
+    `${"#".repeat(depth)} ${text}`;
+
+  const lines: string[] = [];
+  if (level > 1) lines.push(heading(1, title), "");
+
+  for (const section of sections) {
+    const { command } = section;
+    lines.push(heading(level, section.path), "");
+    if (command.$description) lines.push(command.$description, "");
+    if (command.$version) lines.push(`Version: ${command.$version}`, "");
+
+    lines.push(heading(level + 1, "Usage"), "");
+    lines.push("```sh", section.usage, "```", "");
+
+    const table = (header: string, rows: Row[]) => {
+      lines.push(heading(level + 1, header), "");
+      lines.push(
+        `| ${header.replace(/s$/, "")} | Kind | Default | Required | Description |`,
+        "| --- | --- | --- | --- | --- |",
+      );
+      for (const r of rows) {
+        lines.push(
+          `| ${r.names.map(code).join(", ")} | ${cell(r.kind)} | ${r.default === undefined ? "" : code(cell(r.default))} | ${r.required ? "yes" : "no"} | ${cell(r.description)} |`,
+        );
+      }
+      lines.push("");
+    };
+    if (section.options.length > 0) table("Options", section.options);
+    if (section.positionals.length > 0) table("Arguments", section.positionals);
+
+    if (section.subcommands.length > 0) {
+      lines.push(heading(level + 1, "Subcommands"), "");
+      lines.push("| Command | Aliases | Description |", "| --- | --- | --- |");
+      for (const child of section.subcommands) {
+        lines.push(
+          `| [${code(child.$names[0])}](${link(child)}) | ${aliasesOf(child).map(code).join(", ")} | ${cell(child.$description ?? "")} |`,
+        );
+      }
+      lines.push("");
+    }
+
+    if (command.$examples.length > 0) {
+      lines.push(heading(level + 1, "Examples"), "");
+      for (const example of command.$examples) {
+        if (example.description) lines.push(example.description, "");
+        lines.push("```sh", example.command, "```", "");
+      }
+    }
+
+    if (command.$parent) {
+      lines.push(
+        `See also: [${code(command.$parent.fullCommandPath())}](${link(command.$parent)})`,
+        "",
+      );
+    }
+  }
+
+  return lines.join("\n").replace(/\n+$/, "\n");
+}
+
+/**
+ * Renders sections as a standalone HTML document.
+ * @param title The title of the document.
+ * @param sections The sections.
+ * @param link Gets the link to a command.
+ * @param level The heading level of each section.
+ * @returns The HTML source.
+ */
+function html(
+  title: string,
+  sections: Section[],
+  link: (cmd: Command<any>) => string,
+  level: number,
+): string {
+  const esc = (text: string) =>
+    text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  const code = (text: string) => `<code>${esc(text)}</code>`;
+  const heading = (depth: number, text: string, id?: string) =>
+    `<h${depth}${id ? ` id="${esc(id)}"` : ""}>${esc(text)}</h${depth}>`;
+  const paragraph = (text: string) =>
+    `<p>${esc(text).replace(/\r?\n/g, "<br>")}</p>`;
+
+  const body: string[] = [];
+  if (level > 1) body.push(heading(1, title));
+
+  for (const section of sections) {
+    const { command } = section;
+    body.push(`<section id="${esc(section.name)}">`);
+    body.push(heading(level, section.path));
+    if (command.$description) body.push(paragraph(command.$description));
+    if (command.$version) body.push(paragraph(`Version: ${command.$version}`));
+
+    body.push(heading(level + 1, "Usage"));
+    body.push(`<pre><code>${esc(section.usage)}</code></pre>`);
+
+    const table = (header: string, rows: Row[]) => {
+      body.push(heading(level + 1, header), "<table>");
+      body.push(
+        `<thead><tr><th>${header.replace(/s$/, "")}</th><th>Kind</th><th>Default</th><th>Required</th><th>Description</th></tr></thead>`,
+        "<tbody>",
+      );
+      for (const r of rows) {
+        body.push(
+          `<tr><td>${r.names.map(code).join(", ")}</td><td>${esc(r.kind)}</td><td>${r.default === undefined ? "" : code(r.default)}</td><td>${r.required ? "yes" : "no"}</td><td>${esc(r.description)}</td></tr>`,
+        );
+      }
+      body.push("</tbody>", "</table>");
+    };
+    if (section.options.length > 0) table("Options", section.options);
+    if (section.positionals.length > 0) table("Arguments", section.positionals);
+
+    if (section.subcommands.length > 0) {
+      body.push(heading(level + 1, "Subcommands"), "<table>");
+      body.push(
+        "<thead><tr><th>Command</th><th>Aliases</th><th>Description</th></tr></thead>",
+        "<tbody>",
+      );
+      for (const child of section.subcommands) {
+        body.push(
+          `<tr><td><a href="${esc(link(child))}">${code(child.$names[0])}</a></td><td>${aliasesOf(child).map(code).join(", ")}</td><td>${esc(child.$description ?? "")}</td></tr>`,
+        );
+      }
+      body.push("</tbody>", "</table>");
+    }
+
+    if (command.$examples.length > 0) {
+      body.push(heading(level + 1, "Examples"));
+      for (const example of command.$examples) {
+        if (example.description) body.push(paragraph(example.description));
+        body.push(`<pre><code>${esc(example.command)}</code></pre>`);
+      }
+    }
+
+    if (command.$parent) {
+      body.push(
+        `<p>See also: <a href="${esc(link(command.$parent))}">${code(command.$parent.fullCommandPath())}</a></p>`,
+      );
+    }
+    body.push("</section>");
+  }
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${esc(title)}</title>`,
+    "<style>",
+    "body { font-family: system-ui, sans-serif; max-width: 60rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }",
+    "table { border-collapse: collapse; width: 100%; }",
+    "th, td { border: 1px solid #ddd; padding: 0.25rem 0.5rem; text-align: left; vertical-align: top; }",
+    "pre { background: #f5f5f5; padding: 0.5rem; overflow-x: auto; }",
+    "</style>",
+    "</head>",
+    "<body>",
+    ...body,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
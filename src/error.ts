@@ -20,6 +20,26 @@ export class InputValidationError extends Error {
   }
 }
 
+/**
+ * Thrown by actions to exit with a code. Unlike other errors, only its message is printed, if it has one.
+ */
+export class ExitError extends Error {
+  /**
+   * The exit code.
+   */
+  code: number;
+
+  /**
+   * Creates a new exit error.
+   * @param code The exit code.
+   * @param message A message to print.
+   */
+  constructor(code: number, message = "") {
+    super(message);
+    this.code = code;
+  }
+}
+
 /**
  * A Convoker-related error. These are usually handled by default.
  */
@@ -28,6 +48,10 @@ export class ConvokerError extends Error {
    * The command this error happened on.
    */
   command: Command<any>;
+  /**
+   * The exit code of `Command.run` when this error happens. Usage errors exit with 2.
+   */
+  exitCode: number = 2;
 
   /**
    * Creates a new Convoker error.
@@ -51,6 +75,11 @@ export class ConvokerError extends Error {
  * When the user asks for help.
  */
 export class HelpAskedError extends ConvokerError {
+  /**
+   * Asking for help isn't a failure.
+   */
+  exitCode = 0;
+
   /**
    * Creates a new help asked error.
    * @param command The command.
@@ -81,15 +110,151 @@ export class UnknownOptionError extends ConvokerError {
    * The option key.
    */
   key: string;
+  /**
+   * Known options that are close to the key, like `--region` for `--regoin`.
+   */
+  suggestions: string[];
 
   /**
    * Creates a new unknown option error.
    * @param command The command.
    * @param key The key.
+   * @param suggestions Known options that are close to the key.
    */
-  constructor(command: Command<any>, key: string) {
+  constructor(command: Command<any>, key: string, suggestions: string[] = []) {
     super(`unknown option: ${key}!`, command);
     this.key = key;
+    this.suggestions = suggestions;
+  }
+}
+
+/**
+ * When you pass a subcommand that doesn't exist.
+ */
+export class UnknownCommandError extends ConvokerError {
+  /**
+   * The argument that was passed.
+   */
+  arg: string;
+  /**
+   * Subcommands that are close to the argument.
+   */
+  suggestions: string[];
+
+  /**
+   * Creates a new unknown command error.
+   * @param command The command.
+   * @param arg The argument that was passed.
+   * @param suggestions Subcommands that are close to the argument.
+   */
+  constructor(command: Command<any>, arg: string, suggestions: string[] = []) {
+    super(`unknown command: ${arg}!`, command);
+    this.arg = arg;
+    this.suggestions = suggestions;
+  }
+}
+
+/**
+ * When a command that only groups subcommands is run without one.
+ */
+export class MissingCommandError extends ConvokerError {
+  /**
+   * Creates a new missing command error.
+   * @param command The command.
+   */
+  constructor(command: Command<any>) {
+    super("missing command!", command);
+  }
+}
+
+/**
+ * When an option is passed a value it can't accept.
+ */
+export class InvalidValueError extends ConvokerError {
+  /**
+   * The option key.
+   */
+  key: string;
+  /**
+   * The value that was passed.
+   */
+  value: string;
+  /**
+   * The environment variable the value came from, if it didn't come from the command line.
+   */
+  env: string | undefined;
+
+  /**
+   * Creates a new invalid value error.
+   * @param command The command.
+   * @param key The key.
+   * @param value The value.
+   * @param reason Why the value is invalid.
+   * @param env The environment variable the value came from.
+   */
+  constructor(
+    command: Command<any>,
+    key: string,
+    value: string,
+    reason = "invalid value",
+    env?: string,
+  ) {
+    super(
+      env
+        ? `${reason} for option ${key} in ${env}: ${value}!`
+        : `${reason} for option ${key}: ${value}!`,
+      command,
+    );
+    this.key = key;
+    this.value = value;
+    this.env = env;
+  }
+}
+
+/**
+ * When an option or argument is passed a value that isn't one of its choices.
+ */
+export class InvalidChoiceError extends ConvokerError {
+  /**
+   * The option or argument key.
+   */
+  key: string;
+  /**
+   * The value that was passed.
+   */
+  value: string;
+  /**
+   * The allowed values.
+   */
+  choices: readonly string[];
+  /**
+   * Allowed values that are close to the value.
+   */
+  suggestions: string[];
+
+  /**
+   * Creates a new invalid choice error.
+   * @param command The command.
+   * @param key The key.
+   * @param value The value.
+   * @param choices The allowed values.
+   * @param suggestions Allowed values that are close to the value.
+   */
+  constructor(
+    command: Command<any>,
+    key: string,
+    value: string,
+    choices: readonly string[],
+    suggestions: string[] = [],
+  ) {
+    super(
+      `invalid value for ${key}: ${value}! expected one of: ${choices.join(", ")}`,
+      command,
+    );
+    this.key = key;
+    this.value = value;
+    this.choices = choices;
+    this.suggestions = suggestions;
   }
 }
 
@@ -149,3 +314,247 @@ export class MissingRequiredArgumentError extends ConvokerError {
     this.entry = entry;
   }
 }
+
+/**
+ * When options that can't be used together are present.
+ */
+export class ConflictingOptionsError extends ConvokerError {
+  /**
+   * The keys of the conflicting options.
+   */
+  keys: string[];
+
+  /**
+   * Creates a new conflicting options error.
+   * @param command The command.
+   * @param keys The keys of the conflicting options.
+   */
+  constructor(command: Command<any>, keys: string[]) {
+    super(`options can't be used together: ${keys.join(", ")}!`, command);
+    this.keys = keys;
+  }
+}
+
+/**
+ * When more than one option or argument reads standard input.
+ */
+export class StdinConflictError extends ConvokerError {
+  /**
+   * The keys of the options or arguments.
+   */
+  keys: string[];
+
+  /**
+   * Creates a new stdin conflict error.
+   * @param command The command.
+   * @param keys The keys of the options or arguments.
+   */
+  constructor(command: Command<any>, keys: string[]) {
+    super(
+      `only one value can be read from stdin: ${keys.join(", ")}!`,
+      command,
+    );
+    this.keys = keys;
+  }
+}
+
+/**
+ * When the file an option or argument reads its value from can't be read.
+ */
+export class ValueFileError extends ConvokerError {
+  /**
+   * The key of the option or argument.
+   */
+  key: string;
+  /**
+   * The path of the file.
+   */
+  file: string;
+
+  /**
+   * Creates a new value file error.
+   * @param command The command.
+   * @param key The key of the option or argument.
+   * @param file The path of the file.
+   */
+  constructor(command: Command<any>, key: string, file: string) {
+    super(`can't read the value of ${key} from ${file}!`, command);
+    this.key = key;
+    this.file = file;
+  }
+}
+
+/**
+ * When an option is present without an option it requires.
+ */
+export class MissingDependencyError extends ConvokerError {
+  /**
+   * The option key.
+   */
+  key: string;
+  /**
+   * The key of the option it requires.
+   */
+  dependency: string;
+
+  /**
+   * Creates a new missing dependency error.
+   * @param command The command.
+   * @param key The key.
+   * @param dependency The key of the option it requires.
+   */
+  constructor(command: Command<any>, key: string, dependency: string) {
+    super(`option ${key} requires option ${dependency}!`, command);
+    this.key = key;
+    this.dependency = dependency;
+  }
+}
+
+/**
+ * When none of a group of options is present, but at least one is required.
+ */
+export class MissingOneOfError extends ConvokerError {
+  /**
+   * The keys of the options in the group.
+   */
+  keys: string[];
+
+  /**
+   * Creates a new missing one of error.
+   * @param command The command.
+   * @param keys The keys of the options in the group.
+   */
+  constructor(command: Command<any>, keys: string[]) {
+    super(`one of these options is required: ${keys.join(", ")}!`, command);
+    this.keys = keys;
+  }
+}
+
+/**
+ * When a configuration file can't be read or parsed.
+ */
+export class ConfigFileError extends ConvokerError {
+  /**
+   * The path of the file.
+   */
+  file: string | undefined;
+
+  /**
+   * Creates a new config file error.
+   * @param command The command.
+   * @param file The path of the file.
+   * @param message The message.
+   */
+  constructor(
+    command: Command<any>,
+    file: string | undefined,
+    message: string,
+  ) {
+    super(file ? `${file}: ${message}!` : `${message}!`, command);
+    this.file = file;
+  }
+}
+
+/**
+ * When an argument file can't be read or parsed.
+ */
+export class ArgFileError extends ConvokerError {
+  /**
+   * The path of the file.
+   */
+  file: string;
+  /**
+   * The line the error happened on, if known.
+   */
+  line: number | undefined;
+
+  /**
+   * Creates a new argument file error.
+   * @param command The command.
+   * @param file The path of the file.
+   * @param line The line.
+   * @param message The message.
+   */
+  constructor(
+    command: Command<any>,
+    file: string,
+    line: number | undefined,
+    message: string,
+  ) {
+    super(
+      `${line === undefined ? file : `${file}:${line}`}: ${message}!`,
+      command,
+    );
+    this.file = file;
+    this.line = line;
+  }
+}
+
+/**
+ * When a configuration file contains a value an option can't accept.
+ */
+export class ConfigValueError extends ConvokerError {
+  /**
+   * The path of the file.
+   */
+  file: string;
+  /**
+   * The key of the value.
+   */
+  key: string;
+
+  /**
+   * Creates a new config value error.
+   * @param command The command.
+   * @param file The path of the file.
+   * @param key The key.
+   * @param message The message.
+   */
+  constructor(
+    command: Command<any>,
+    file: string,
+    key: string,
+    message: string,
+  ) {
+    super(`${file}: invalid value for ${key}: ${message}!`, command);
+    this.file = file;
+    this.key = key;
+  }
+}
+
+/**
+ * When an external subcommand can't be started.
+ */
+export class ExternalCommandError extends ConvokerError {
+  /**
+   * The name of the subcommand.
+   */
+  subcommand: string;
+  /**
+   * The path of the executable.
+   */
+  path: string;
+
+  /**
+   * Creates a new external command error.
+   * @param command The command.
+   * @param subcommand The name of the subcommand.
+   * @param path The path of the executable.
+   * @param cause Why it couldn't be started.
+   */
+  constructor(
+    command: Command<any>,
+    subcommand: string,
+    path: string,
+    cause: unknown,
+  ) {
+    super(
+      `can't run ${path}: ${cause instanceof Error ? cause.message : String(cause)}!`,
+      command,
+    );
+    this.subcommand = subcommand;
+    this.path = path;
+    // like shells: 127 if the executable is gone, 126 if it can't be executed
+    this.exitCode = (cause as { code?: string })?.code === "ENOENT" ? 127 : 126;
+  }
+}
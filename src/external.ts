@@ -0,0 +1,200 @@
+import { getEnv, isBun, isDeno, isWindows, joinPath, readDir } from "./utils";
+
+/**
+ * Options for dispatching to external subcommands.
+ */
+export interface ExternalOpts {
+  /**
+   * The prefix of executables, like `mycli-`. Defaults to the command path joined with dashes, followed by a dash.
+   */
+  prefix?: string;
+}
+
+/**
+ * An executable on `PATH` that acts as a subcommand, like `mycli-deploy`.
+ */
+export interface ExternalCommand {
+  /**
+   * The name of the subcommand, like `deploy`.
+   */
+  name: string;
+  /**
+   * The path of the executable.
+   */
+  path: string;
+}
+
+/**
+ * Gets the directories on `PATH`.
+ * @returns The directories, in order.
+ */
+function pathDirs(): string[] {
+  return (getEnv("PATH") ?? getEnv("Path") ?? "")
+    .split(isWindows ? ";" : ":")
+    .filter(Boolean);
+}
+
+/**
+ * Gets the extensions of executables on Windows, like `.exe`.
+ * @returns The extensions, in lowercase. Empty on other systems.
+ */
+function executableExtensions(): string[] {
+  if (!isWindows) return [];
+  return (getEnv("PATHEXT") ?? ".COM;.EXE;.BAT;.CMD")
+    .split(";")
+    .filter(Boolean)
+    .map((ext) => ext.toLowerCase());
+}
+
+/**
+ * Checks if a path is an executable file.
+ * @param path The path.
+ * @returns If the file exists and can be executed.
+ */
+async function isExecutable(path: string): Promise<boolean> {
+  try {
+    if (isDeno) {
+      const info = await Deno.stat(path);
+      // Windows has no permission bits
+      return info.isFile && (info.mode === null || (info.mode & 0o111) !== 0);
+    }
+
+    const { stat } = await import("node:fs/promises");
+    const info = await stat(path);
+    return info.isFile() && (isWindows || (info.mode & 0o111) !== 0);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Finds an executable on `PATH`.
+ * @param name The name of the executable, without an extension.
+ * @returns The path of the executable, if there is one.
+ */
+export async function findExecutable(
+  name: string,
+): Promise<string | undefined> {
+  const exts = executableExtensions();
+  for (const dir of pathDirs()) {
+    for (const ext of exts.length > 0 ? exts : [""]) {
+      const path = joinPath(dir, name + ext);
+      if (await isExecutable(path)) return path;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Lists the executables on `PATH` that start with a prefix.
+ * Earlier directories win, like they do when running a command.
+ * @param prefix The prefix, like `mycli-`.
+ * @returns The external commands, sorted by name.
+ */
+export async function listExternalCommands(
+  prefix: string,
+): Promise<ExternalCommand[]> {
+  const exts = executableExtensions();
+  const commands = new Map<string, ExternalCommand>();
+  for (const dir of pathDirs()) {
+    let entries: string[];
+    try {
+      entries = await readDir(dir);
+    } catch {
+      continue;
+    }
+
+    for (const entry of entries) {
+      if (!entry.startsWith(prefix)) continue;
+      let name = entry.slice(prefix.length);
+      if (exts.length > 0) {
+        const ext = exts.find((e) => name.toLowerCase().endsWith(e));
+        if (!ext) continue;
+        name = name.slice(0, -ext.length);
+      }
+
+      const path = joinPath(dir, entry);
+      if (name && !commands.has(name) && (await isExecutable(path))) {
+        commands.set(name, { name, path });
+      }
+    }
+  }
+  return [...commands.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Runs an executable with inherited standard streams, in a cross-runtime way.
+ * @param path The path of the executable.
+ * @param args The arguments.
+ * @returns The exit code.
+ */
+export async function spawnExternal(
+  path: string,
+  args: string[],
+): Promise<number> {
+  if (isDeno) {
+    const child = new Deno.Command(path, {
+      args,
+      stdin: "inherit",
+      stdout: "inherit",
+      stderr: "inherit",
+    }).spawn();
+    const status = await child.status;
+    return status.code;
+  }
+
+  if (isBun) {
+    const child = Bun.spawn([path, ...args], {
+      stdio: ["inherit", "inherit", "inherit"],
+    });
+    return await child.exited;
+  }
+
+  const { spawn } = await import("node:child_process");
+  // Node.js refuses to spawn batch files directly, so they run through cmd.exe
+  const batch = isWindows && /\.(bat|cmd)$/i.test(path);
+  const [file, argv] = batch ? cmdCommandLine(path, args) : [path, args];
+  return new Promise((resolve, reject) => {
+    const child = spawn(file, argv, {
+      stdio: "inherit",
+      windowsVerbatimArguments: batch,
+    });
+    child.on("error", reject);
+    // processes killed by a signal exit with 128 + the signal number, like in shells
+    child.on("close", (code: number | null, signal: string | null) => {
+      if (code !== null) resolve(code);
+      else resolve(128 + (signalNumbers[signal ?? ""] ?? 0));
+    });
+  });
+}
+
+// characters cmd.exe treats specially, which are escaped with `^`
+const CMD_META = /([()\][%!^"`<>&|;, *?])/g;
+
+/**
+ * Builds a command line that runs a batch file through cmd.exe, quoting every argument.
+ * @param path The path of the batch file.
+ * @param args The arguments.
+ * @returns The executable and its arguments.
+ */
+function cmdCommandLine(path: string, args: string[]): [string, string[]] {
+  const quoted = args.map((arg) => {
+    // double the backslashes before quotes, then quote the argument
+    const escaped = arg.replace(/(\\*)"/g, '$1$1\\"').replace(/(\\*)$/, "$1$1");
+    // batch files expand the arguments again, so metacharacters are escaped twice
+    return `"${escaped}"`.replace(CMD_META, "^$1").replace(CMD_META, "^$1");
+  });
+  const line = [path.replace(CMD_META, "^$1"), ...quoted].join(" ");
+  return [getEnv("ComSpec") ?? "cmd.exe", ["/d", "/s", "/c", `"${line}"`]];
+}
+
+/**
+ * The numbers of common signals.
+ */
+const signalNumbers: Record<string, number> = {
+  SIGHUP: 1,
+  SIGINT: 2,
+  SIGQUIT: 3,
+  SIGKILL: 9,
+  SIGTERM: 15,
+};
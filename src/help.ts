@@ -0,0 +1,338 @@
+import { bold, cyan, gray } from "./color";
+import type { Command } from "./command";
+import { Choices, Option, Positional, valueName } from "./input";
+import { childCommands, inputEntries, visibleNames } from "./tree";
+import { terminalWidth } from "./utils";
+
+/**
+ * Formats the help screen of a command.
+ */
+export interface HelpFormatter {
+  /**
+   * Formats the help screen of a command.
+   * @param command The command.
+   * @returns The help screen.
+   */
+  format(command: Command<any>): string;
+}
+
+/**
+ * Options for the default help formatter.
+ */
+export interface HelpOpts {
+  /**
+   * The width to wrap to. Defaults to the width of the terminal.
+   */
+  width?: number;
+}
+
+/**
+ * A row in a two-column section of the help screen.
+ */
+interface Row {
+  /**
+   * The left column, like `-r, --region <string>`.
+   */
+  term: string;
+  /**
+   * The right column, like the description.
+   */
+  description: string;
+}
+
+/**
+ * The default help formatter.
+ */
+export class DefaultHelpFormatter implements HelpFormatter {
+  /**
+   * The width to wrap to.
+   */
+  $width: number | undefined;
+
+  /**
+   * Creates a new default help formatter.
+   * @param opts The options.
+   */
+  constructor(opts: HelpOpts = {}) {
+    this.$width = opts.width;
+  }
+
+  /**
+   * Formats the help screen of a command.
+   * @param command The command.
+   * @returns The help screen.
+   */
+  format(command: Command<any>): string {
+    const width = Math.max(this.$width ?? terminalWidth(), 40);
+    const lines: string[] = [];
+
+    const [first, ...rest] = wrap(usage(command), width - 7);
+    lines.push(`${bold("usage:")} ${cyan(first)}`);
+    for (const line of rest) lines.push(`       ${cyan(line)}`);
+
+    if (command.$description) {
+      lines.push("", ...wrap(command.$description, width));
+    }
+    if (command.$version) {
+      lines.push("", `${bold("version")} ${command.$version}`);
+    }
+
+    // hidden entries still parse, they are just not shown
+    const entries = inputEntries(command);
+
+    // OPTIONS
+    const options: Row[] = [];
+    for (const [key, entry] of entries) {
+      if (!(entry instanceof Option)) continue;
+      const value = valueName(entry);
+      const names = visibleNames(entry)
+        .map((n) => {
+          if (n.length === 1) return `-${n}`;
+          // show the negated form of booleans, like `--[no-]verbose`
+          return entry.$kind === "boolean" && entry.$negatable
+            ? `--[no-]${n}`
+            : `--${n}`;
+        })
+        .join(", ");
+      const notes = this.notes(entry);
+      const envName = command.envName(key, entry);
+      if (envName) notes.push(`env: ${envName}`);
+      if (entry.$conflicts.length > 0) {
+        notes.push(
+          `conflicts: ${entry.$conflicts.map((k) => flagOf(command, k)).join(", ")}`,
+        );
+      }
+      if (entry.$requires.length > 0) {
+        notes.push(
+          `requires: ${entry.$requires.map((k) => flagOf(command, k)).join(", ")}`,
+        );
+      }
+      options.push({
+        term: value ? `${names} <${value}>` : names,
+        description: describe(entry.$description, notes),
+      });
+    }
+    options.push({ term: "-h, --help", description: "Show help" });
+    if (command.$version) {
+      options.push({ term: "-V, --version", description: "Show version" });
+    }
+    lines.push("", bold("options:"), ...columns(options, width));
+
+    // GROUPS
+    if (command.$groups.length > 0) {
+      const labels = {
+        exclusive: "at most one of",
+        atLeastOne: "at least one of",
+        exactlyOne: "exactly one of",
+      };
+      lines.push("", bold("option groups:"));
+      for (const group of command.$groups) {
+        const flags = group.keys.map((k) => flagOf(command, k)).join(", ");
+        lines.push(`  ${gray(labels[group.type] + ":")} ${cyan(flags)}`);
+      }
+    }
+
+    // POSITIONALS
+    const positionals: Row[] = [];
+    for (const [key, entry] of entries) {
+      if (!(entry instanceof Positional)) continue;
+      positionals.push({
+        term: positionalName(key, entry),
+        description: describe(entry.$description, this.notes(entry)),
+      });
+    }
+    if (positionals.length > 0) {
+      lines.push("", bold("arguments:"), ...columns(positionals, width));
+    }
+
+    // SUBCOMMANDS
+    const children = childCommands(command);
+    if (children.length > 0) {
+      const rows = children.map((child) => ({
+        term: visibleNames(child).join(", "),
+        description: describe(
+          child.$description,
+          child.$deprecated ? [`deprecated: ${child.$deprecated.message}`] : [],
+        ),
+      }));
+      lines.push("", bold("sub commands:"), ...columns(rows, width));
+      lines.push(
+        "",
+        `run '${cyan(`${command.fullCommandPath()} <command> --help`)}' for more info on a command.`,
+      );
+    }
+
+    // EXTERNAL COMMANDS
+    const external = command.$externalCommands ?? [];
+    if (external.length > 0) {
+      const rows = external.map(({ name, path }) => ({
+        term: name,
+        description: path,
+      }));
+      lines.push("", bold("external commands:"), ...columns(rows, width));
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Gets the notes shown after the description of an option or positional.
+   * @param entry The option or positional.
+   * @returns The notes, like `default: eu`.
+   */
+  notes(entry: Option<any, any, any> | Positional<any, any, any>): string[] {
+    const notes: string[] = [];
+    if (entry.$required && entry.$default === undefined) {
+      notes.push("required");
+    } else if (entry.$default !== undefined && entry.$kind !== "count") {
+      const value = Array.isArray(entry.$default)
+        ? entry.$default.join(",")
+        : String(entry.$default);
+      notes.push(`default: ${value}`);
+    }
+    if (entry.$kind instanceof Choices) {
+      notes.push(`choices: ${entry.$kind.$choices.join(", ")}`);
+    }
+    if (entry instanceof Option && entry.$list) {
+      notes.push(`repeatable, separated by "${entry.$separator ?? ","}"`);
+    } else if (entry.$kind === "count") {
+      notes.push("repeatable");
+    }
+    if (entry.$fromStdin) notes.push('"-" reads stdin');
+    if (entry.$fromFile) notes.push('"@path" reads a file');
+    if (entry.$deprecated) {
+      notes.push(`deprecated: ${entry.$deprecated.message}`);
+    }
+    return notes;
+  }
+}
+
+/**
+ * Synthesizes the usage line of a command from its input, like `mycli deploy [--region <string>] <target> [files...]`.
+ * @param command The command.
+ * @returns The usage line.
+ */
+export function usage(command: Command<any>): string {
+  const parts = [command.fullCommandPath()];
+  for (const [key, entry] of inputEntries(command)) {
+    if (entry instanceof Positional) {
+      parts.push(positionalName(key, entry));
+      continue;
+    }
+
+    const value = valueName(entry);
+    let part = flagOf(command, key);
+    if (value) part += ` <${value}>`;
+    if (entry.$list || entry.$kind === "count") part += "...";
+    parts.push(isRequired(entry) ? part : `[${part}]`);
+  }
+
+  // commands without an action need a subcommand
+  if (command.$children.size > 0) {
+    parts.push(command.$fn ? "[command]" : "<command>");
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Wraps text to a width, keeping existing line breaks.
+ * @param text The text.
+ * @param width The width.
+ * @returns The lines.
+ */
+export function wrap(text: string, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/ +/)) {
+      if (line && line.length + 1 + word.length > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Formats rows as two columns, wrapping the second one.
+ * @param rows The rows.
+ * @param width The width.
+ * @returns The lines.
+ */
+function columns(rows: Row[], width: number): string[] {
+  // long terms get their description on the next line
+  const limit = Math.floor(width * 0.4);
+  const termWidth = Math.min(
+    Math.max(0, ...rows.map((r) => r.term.length)),
+    limit,
+  );
+  const indent = 2 + termWidth + 4;
+
+  const lines: string[] = [];
+  for (const { term, description } of rows) {
+    const wrapped = description
+      ? wrap(description, Math.max(width - indent, 10))
+      : [];
+    if (term.length > termWidth) {
+      lines.push(`  ${cyan(term)}`);
+      for (const line of wrapped) {
+        lines.push(" ".repeat(indent) + gray(line));
+      }
+      continue;
+    }
+
+    const [first = "", ...rest] = wrapped;
+    lines.push(`  ${cyan(term.padEnd(termWidth + 4))}${gray(first)}`.trimEnd());
+    for (const line of rest) lines.push(" ".repeat(indent) + gray(line));
+  }
+  return lines;
+}
+
+/**
+ * Appends notes to a description, like `The region. [default: eu]`.
+ * @param description The description.
+ * @param notes The notes.
+ * @returns The description with notes.
+ */
+function describe(description: string | undefined, notes: string[]): string {
+  return [description, ...notes.map((n) => `[${n}]`)].filter(Boolean).join(" ");
+}
+
+/**
+ * Gets the name of a positional, like `<target>` or `[files...]`.
+ * @param key The key of the positional.
+ * @param entry The positional.
+ * @returns The name.
+ */
+function positionalName(key: string, entry: Positional<any, any, any>): string {
+  const name = entry.$list ? `${key}...` : key;
+  return isRequired(entry) ? `<${name}>` : `[${name}]`;
+}
+
+/**
+ * Gets the flag of an input key, preferring long names, like `--region`.
+ * @param command The command.
+ * @param key The key.
+ * @returns The flag.
+ */
+function flagOf(command: Command<any>, key: string): string {
+  const entry = command.$input[key];
+  if (!(entry instanceof Option)) return `<${key}>`;
+  const name = entry.$names.find((n) => n.length > 1) ?? entry.$names[0];
+  return name.length === 1 ? `-${name}` : `--${name}`;
+}
+
+/**
+ * Checks if an option or positional has to be passed.
+ * @param entry The option or positional.
+ * @returns If the entry is required and has no default.
+ */
+function isRequired(
+  entry: Option<any, any, any> | Positional<any, any, any>,
+): boolean {
+  return entry.$required && entry.$default === undefined;
+}
@@ -4,3 +4,13 @@ export * as i from "./input";
 export * as color from "./color";
 export * as prompt from "./prompt";
 export * as log from "./log";
+export * as config from "./config";
+export * as completion from "./completion";
+export * as man from "./man";
+export * as docs from "./docs";
+export * as manifest from "./manifest";
+export * as help from "./help";
+export * as external from "./external";
+export * as plugin from "./plugin";
+export * as argfile from "./argfile";
+export * as testing from "./testing";
@@ -1,3 +1,4 @@
+import { InputValidationError } from "./error";
 import { validate, type StandardSchemaV1 } from "./standard-schema";
 
 /**
@@ -10,7 +11,7 @@ export interface Input {
 /**
  * A basic input type.
  */
-export type BasicKind = "boolean" | "string" | "number" | "bigint";
+export type BasicKind = "boolean" | "count" | "string" | "number" | "bigint";
 /**
  * An input type.
  */
@@ -24,13 +25,15 @@ export type TypeOf<T extends Kind> =
     ? Out
     : T extends "boolean"
       ? boolean
-      : T extends "string"
-        ? string
-        : T extends "number"
-          ? number
-          : T extends "bigint"
-            ? bigint
-            : never;
+      : T extends "count"
+        ? number
+        : T extends "string"
+          ? string
+          : T extends "number"
+            ? number
+            : T extends "bigint"
+              ? bigint
+              : never;
 
 /**
  * Infers TypeScript types from an input object.
@@ -56,11 +59,124 @@ export type InferEntry<T> = T extends {
       : TypeOf<TKind> | undefined
   : never;
 
+/**
+ * Why something is deprecated, and what replaces it.
+ */
+export interface Deprecation {
+  /**
+   * The message shown when it is used.
+   */
+  message: string;
+  /**
+   * What replaces it: the key of an option or positional, or the name of a sibling command.
+   */
+  replacement?: string;
+}
+
+/**
+ * How a missing required option or argument is prompted for.
+ */
+export interface PromptOpts {
+  /**
+   * The message of the prompt. Defaults to the description, or the key.
+   */
+  message?: string;
+  /**
+   * The prompt to use. Defaults to one that fits the kind: `select` for choices, `confirm` for booleans,
+   * `password` for secret options and `text` for everything else.
+   */
+  type?: "text" | "password" | "confirm" | "select";
+}
+
+/**
+ * An option that is never set.
+ */
+type AbsentOption = Option<never, false, false>;
+
+/**
+ * Narrows an input so at most one of a group of options is set.
+ */
+export type ExclusiveInput<T extends Input, K extends keyof T> = {
+  [P in K]: Omit<T, K> & Pick<T, P> & { [Q in Exclude<K, P>]: AbsentOption };
+}[K];
+
+/**
+ * Narrows an input so exactly one of a group of options is set.
+ */
+export type ExactlyOneInput<T extends Input, K extends keyof T> = {
+  [P in K]: Omit<T, K> & {
+    [Q in P]: T[Q] extends Option<infer TKind, any, infer TList>
+      ? Option<TKind, true, TList>
+      : T[Q];
+  } & { [Q in Exclude<K, P>]: AbsentOption };
+}[K];
+
+/**
+ * A completion candidate, either a value or a value with a description.
+ */
+export type CompletionValue = string | { value: string; description?: string };
+
+/**
+ * Computes completion candidates at runtime.
+ * @param partial What the user typed so far.
+ * @param parsed The input parsed so far.
+ */
+export type CompleteFn = (
+  partial: string,
+  parsed: Record<string, unknown>,
+) => CompletionValue[] | Promise<CompletionValue[]>;
+
+/**
+ * Parses a boolean from a string, like `true`, `0` or `no`.
+ * @param value The value to parse.
+ * @returns The parsed boolean, or `undefined` if the value isn't a boolean.
+ */
+export function parseBoolean(value: string): boolean | undefined {
+  switch (value.toLowerCase()) {
+    case "true":
+    case "1":
+    case "yes":
+    case "on":
+      return true;
+    case "false":
+    case "0":
+    case "no":
+    case "off":
+      return false;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Checks if an option is a flag, which doesn't take a value.
+ * @param option The option.
+ * @returns If the option is a flag.
+ */
+export function isFlag(option: Option<any, any, any>): boolean {
+  return option.$kind === "boolean" || option.$kind === "count";
+}
+
+/**
+ * Gets the placeholder for the value of an option or positional, like `string` or `dev|prod`.
+ * @param entry The option or positional.
+ * @returns The placeholder, or `undefined` for flags.
+ */
+export function valueName(
+  entry: Option<any, any, any> | Positional<any, any, any>,
+): string | undefined {
+  const kind = entry.$kind;
+  if (kind instanceof Choices) return kind.$choices.join("|");
+  if (kind === "boolean" || kind === "count") return undefined;
+  return typeof kind === "string" ? kind : "value";
+}
+
 /**
  * Converts a value from a Kind to a TypeScript type.
  * @param kind The kind to convert to.
  * @param value The value to convert.
  * @returns The converted value.
+ * @throws {InputValidationError} If the value isn't of the kind, like `abc` for a number.
  */
 export async function convert<TKind extends Kind>(
   kind: TKind,
@@ -70,12 +186,31 @@ export async function convert<TKind extends Kind>(
   async function convertOne(val: string): Promise<TypeOf<TKind>> {
     if (typeof kind === "string") {
       switch (kind) {
-        case "boolean":
-          return (val === "true") as any;
+        case "boolean": {
+          const bool = parseBoolean(val);
+          if (bool === undefined) {
+            throw new InputValidationError(["expected a boolean"]);
+          }
+          return bool as any;
+        }
+        case "count":
+          if (!/^\d+$/.test(val.trim())) {
+            throw new InputValidationError(["expected a count"]);
+          }
+          return parseInt(val, 10) as any;
         case "bigint":
-          return BigInt(val) as any;
-        case "number":
-          return parseFloat(val) as any;
+          if (!/^[-+]?\d+$/.test(val.trim())) {
+            throw new InputValidationError(["expected an integer"]);
+          }
+          return BigInt(val.trim()) as any;
+        case "number": {
+          // Number() rejects trailing garbage, unlike parseFloat()
+          const num = val.trim() === "" ? NaN : Number(val);
+          if (Number.isNaN(num)) {
+            throw new InputValidationError(["expected a number"]);
+          }
+          return num as any;
+        }
         case "string":
           return val as any;
       }
@@ -130,6 +265,62 @@ export class Option<
    * A separator if this option is a list.
    */
   $separator: string | undefined;
+  /**
+   * If this option can be negated with `--no-<name>`. Only applies to booleans.
+   */
+  $negatable: boolean = true;
+  /**
+   * If this option accepts explicit values, like `--foo=false`. Only applies to booleans.
+   */
+  $explicit: boolean = false;
+  /**
+   * The environment variable this option falls back to.
+   */
+  $env: string | undefined;
+  /**
+   * Computes completion candidates for the value of this option.
+   */
+  $complete: CompleteFn | undefined;
+  /**
+   * The keys of options that can't be used together with this option.
+   */
+  $conflicts: string[] = [];
+  /**
+   * The keys of options that must be present when this option is.
+   */
+  $requires: string[] = [];
+  /**
+   * Values that other options take when this option is present.
+   */
+  $implies: Record<string, unknown> = {};
+  /**
+   * If this option is left out of help screens and completions.
+   */
+  $hidden: boolean = false;
+  /**
+   * Why this option is deprecated.
+   */
+  $deprecated: Deprecation | undefined;
+  /**
+   * Names of this option that are deprecated.
+   */
+  $deprecatedNames: Map<string, Deprecation> = new Map();
+  /**
+   * If the value of this option is secret, like a password.
+   */
+  $secret: boolean = false;
+  /**
+   * How this option is prompted for when it is missing, or `false` to never prompt.
+   */
+  $prompt: PromptOpts | false | undefined;
+  /**
+   * If this option reads its value from standard input when it is `-`.
+   */
+  $fromStdin: boolean = false;
+  /**
+   * If this option reads its value from a file when it is `@path`.
+   */
+  $fromFile: boolean = false;
 
   /**
    * Creates a new option.
@@ -139,6 +330,8 @@ export class Option<
   constructor(kind: TKind, names: string[]) {
     this.$kind = kind;
     this.$names = names.map((name) => name.replace(/^-+/, ""));
+    // counts start at zero when the flag is absent
+    if (kind === "count") this.$default = 0 as TypeOf<TKind>;
   }
 
   /**
@@ -151,6 +344,66 @@ export class Option<
     return this as any;
   }
 
+  /**
+   * Sets if this option can be negated with `--no-<name>`.
+   * @param negatable If this option can be negated.
+   * @returns this
+   */
+  negatable(negatable = true): this {
+    this.$negatable = negatable;
+    return this;
+  }
+
+  /**
+   * Allows explicit values, like `--foo=false`, `--foo=0` or `--foo=no`.
+   * @returns this
+   */
+  explicit(): this {
+    this.$explicit = true;
+    return this;
+  }
+
+  /**
+   * Reads this option from an environment variable if the flag is absent.
+   * @param name The name of the environment variable.
+   * @returns this
+   */
+  env(name: string): this {
+    this.$env = name;
+    return this;
+  }
+
+  /**
+   * Prevents this option from being used together with other options. A value from the command line drops a
+   * conflicting value from the environment or a config file, instead of failing.
+   * @param keys The keys of the other options.
+   * @returns this
+   */
+  conflicts(...keys: string[]): this {
+    this.$conflicts.push(...keys);
+    return this;
+  }
+
+  /**
+   * Requires other options to be present when this option is.
+   * @param keys The keys of the other options.
+   * @returns this
+   */
+  requires(...keys: string[]): this {
+    this.$requires.push(...keys);
+    return this;
+  }
+
+  /**
+   * Sets other options when this option is present, unless they were set explicitly.
+   * @param values The values of the other options, by key.
+   * @returns this
+   */
+  implies(values: Record<string, unknown>): this {
+    Object.assign(this.$implies, values);
+    return this;
+  }
+
   /**
    * Makes this option required.
    * @returns this
@@ -188,6 +441,90 @@ export class Option<
     this.$description = desc;
     return this;
   }
+
+  /**
+   * Hides this option from help screens and completions. It still parses.
+   * @param hidden If this option is hidden.
+   * @returns this
+   */
+  hidden(hidden = true): this {
+    this.$hidden = hidden;
+    return this;
+  }
+
+  /**
+   * Deprecates this option. It still parses, but warns when used.
+   * @param message The message shown when it is used.
+   * @param replacement The key of an option that receives the value instead.
+   * @returns this
+   */
+  deprecated(message: string, replacement?: string): this {
+    this.$deprecated = { message, replacement };
+    return this;
+  }
+
+  /**
+   * Adds a deprecated name to this option, like `--colour` for `--color`.
+   * @param name The name.
+   * @param message The message shown when it is used.
+   * @returns this
+   */
+  deprecatedAlias(name: string, message: string): this {
+    const stripped = name.replace(/^-+/, "");
+    this.$names.push(stripped);
+    this.$deprecatedNames.set(stripped, { message });
+    return this;
+  }
+
+  /**
+   * Marks the value of this option as secret. It is prompted for with a masked input, and never printed.
+   * @param secret If the value is secret.
+   * @returns this
+   */
+  secret(secret = true): this {
+    this.$secret = secret;
+    return this;
+  }
+
+  /**
+   * Sets how this option is prompted for when it is missing.
+   * @param opts The options of the prompt, or `false` to never prompt.
+   * @returns this
+   */
+  prompt(opts: PromptOpts | false = {}): this {
+    this.$prompt = opts;
+    return this;
+  }
+
+  /**
+   * Reads the value from standard input when it is `-`. Only one option or argument can read it per run.
+   * @param enabled If the value can be read from standard input.
+   * @returns this
+   */
+  fromStdin(enabled = true): this {
+    this.$fromStdin = enabled;
+    return this;
+  }
+
+  /**
+   * Reads the value from a file when it is `@path`. Use `@@` for values that start with `@`.
+   * @param enabled If the value can be read from a file.
+   * @returns this
+   */
+  fromFile(enabled = true): this {
+    this.$fromFile = enabled;
+    return this;
+  }
+
+  /**
+   * Computes completion candidates at runtime, for shell completion.
+   * @param fn The function that computes the candidates.
+   * @returns this
+   */
+  complete(fn: CompleteFn): this {
+    this.$complete = fn;
+    return this;
+  }
 }
 
 /**
@@ -218,6 +555,30 @@ export class Positional<
    * If this argument is a list.
    */
   $list: TList = false as TList;
+  /**
+   * Computes completion candidates for this argument.
+   */
+  $complete: CompleteFn | undefined;
+  /**
+   * If this argument is left out of help screens and completions.
+   */
+  $hidden: boolean = false;
+  /**
+   * Why this argument is deprecated.
+   */
+  $deprecated: Deprecation | undefined;
+  /**
+   * How this argument is prompted for when it is missing, or `false` to never prompt.
+   */
+  $prompt: PromptOpts | false | undefined;
+  /**
+   * If this argument reads its value from standard input when it is `-`.
+   */
+  $fromStdin: boolean = false;
+  /**
+   * If this argument reads its value from a file when it is `@path`.
+   */
+  $fromFile: boolean = false;
 
   /**
    * Creates a new positional argument.
@@ -273,6 +634,112 @@ export class Positional<
     this.$description = desc;
     return this;
   }
+
+  /**
+   * Hides this argument from help screens and completions. It still parses.
+   * @param hidden If this argument is hidden.
+   * @returns this
+   */
+  hidden(hidden = true): this {
+    this.$hidden = hidden;
+    return this;
+  }
+
+  /**
+   * Deprecates this argument. It still parses, but warns when used.
+   * @param message The message shown when it is used.
+   * @param replacement The key of an option or argument that receives the value instead.
+   * @returns this
+   */
+  deprecated(message: string, replacement?: string): this {
+    this.$deprecated = { message, replacement };
+    return this;
+  }
+
+  /**
+   * Sets how this argument is prompted for when it is missing.
+   * @param opts The options of the prompt, or `false` to never prompt.
+   * @returns this
+   */
+  prompt(opts: PromptOpts | false = {}): this {
+    this.$prompt = opts;
+    return this;
+  }
+
+  /**
+   * Reads the value from standard input when it is `-`. Only one argument or option can read it per run.
+   * @param enabled If the value can be read from standard input.
+   * @returns this
+   */
+  fromStdin(enabled = true): this {
+    this.$fromStdin = enabled;
+    return this;
+  }
+
+  /**
+   * Reads the value from a file when it is `@path`. Use `@@` for values that start with `@`.
+   * @param enabled If the value can be read from a file.
+   * @returns this
+   */
+  fromFile(enabled = true): this {
+    this.$fromFile = enabled;
+    return this;
+  }
+
+  /**
+   * Computes completion candidates at runtime, for shell completion.
+   * @param fn The function that computes the candidates.
+   * @returns this
+   */
+  complete(fn: CompleteFn): this {
+    this.$complete = fn;
+    return this;
+  }
+}
+
+/**
+ * A fixed set of allowed values.
+ */
+export class Choices<T extends string> implements StandardSchemaV1<string, T> {
+  /**
+   * The allowed values.
+   */
+  $choices: readonly T[];
+  /**
+   * The Standard Schema properties.
+   */
+  readonly "~standard": StandardSchemaV1.Props<string, T>;
+
+  /**
+   * Creates a new set of choices.
+   * @param choices The allowed values.
+   */
+  constructor(choices: readonly T[]) {
+    this.$choices = choices;
+    this["~standard"] = {
+      version: 1,
+      vendor: "convoker",
+      validate: (value) =>
+        this.$choices.includes(value as T)
+          ? { value: value as T }
+          : {
+              issues: [
+                { message: `expected one of: ${this.$choices.join(", ")}` },
+              ],
+            },
+    };
+  }
+}
+
+/**
+ * Creates a kind that only allows a fixed set of values.
+ * @param values The allowed values.
+ * @returns A new set of choices.
+ */
+export function choices<const T extends string>(
+  values: readonly T[],
+): Choices<T> {
+  return new Choices(values);
 }
 
 /**
@@ -1,5 +1,5 @@
 import { DEFAULT_THEME, type Theme } from "./color";
-import { merge, isNode, isDeno, isBun } from "./utils";
+import { isNode, isDeno, isBun } from "./utils";
 
 /**
  * The logger configuration.
@@ -77,9 +77,33 @@ async function getDefaultStderr() {
 
 /**
  * Gets the default stdin, in a cross-runtime way.
+ * It is only opened once it is read, since an open stdin keeps the process alive.
  * @returns The default stdin.
  */
-async function getDefaultStdin() {
+async function getDefaultStdin(): Promise<ReadableStream<string>> {
+  let reader: ReadableStreamDefaultReader<string> | undefined;
+  return new ReadableStream(
+    {
+      async pull(controller) {
+        const current = (reader ??= (await openStdin()).getReader());
+        const { done, value } = await current.read();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      },
+      async cancel(reason) {
+        await reader?.cancel(reason);
+      },
+    },
+    // don't pull before the first read
+    { highWaterMark: 0 },
+  );
+}
+
+/**
+ * Opens the stdin of the runtime.
+ * @returns The stdin.
+ */
+async function openStdin() {
   if (isNode && process.stdin?.readable) {
     const { Readable } = await import("node:stream");
     return Readable.toWeb(process.stdin);
@@ -115,15 +139,22 @@ export function setTheme(t: Theme) {
  * @param c The config.
  */
 export async function setConfig(c: Partial<LogConfig>) {
-  config = merge(
-    {
-      format: "text",
-      stdout: await getDefaultStdout(),
-      stderr: await getDefaultStderr(),
-      stdin: await getDefaultStdin(),
-    },
-    c,
-  ) as LogConfig;
+  // the default streams wrap the process ones, so they are only created when missing
+  config = {
+    format: c.format ?? "text",
+    stdout: c.stdout ?? (await getDefaultStdout()),
+    stderr: c.stderr ?? (await getDefaultStderr()),
+    stdin: c.stdin ?? (await getDefaultStdin()),
+  };
+}
+
+/**
+ * Gets the configuration, setting defaults if none was set.
+ * @returns The config.
+ */
+export async function getConfig(): Promise<LogConfig> {
+  await ensureConfig();
+  return config;
 }
 
 /**
@@ -133,6 +164,38 @@ export async function setup() {
   await setConfig({});
 }
 
+/**
+ * Sets default configuration, unless configuration was already set.
+ */
+async function ensureConfig() {
+  if (!config) await setup();
+}
+
+/**
+ * Reads standard input until it ends.
+ * @returns Everything that was read.
+ */
+export async function readStdin(): Promise<string> {
+  await ensureConfig();
+  const reader = config.stdin.getReader();
+  // the default stdin of Node.js yields bytes
+  const decoder = new TextDecoder();
+  let text = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      text +=
+        typeof value === "string"
+          ? value
+          : decoder.decode(value as Uint8Array, { stream: true });
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  return text + decoder.decode();
+}
+
 /**
  * Formats a message to the correct format.
  * @param level The level of mesage.
@@ -210,6 +273,7 @@ async function writeToStream(stream: WritableStream<string>, msg: string) {
  * @param msgs The messages to write.
  */
 export async function trace(...msgs: any[]) {
+  await ensureConfig();
   const formatted = formatMessages("trace", ...msgs);
   const colored = colorize("trace", formatted);
   await writeToStream(config.stdout, colored);
@@ -220,6 +284,7 @@ export async function trace(...msgs: any[]) {
  * @param msgs The messages to write.
  */
 export async function info(...msgs: any[]) {
+  await ensureConfig();
   const formatted = formatMessages("info", ...msgs);
   const colored = colorize("info", formatted);
   await writeToStream(config.stdout, colored);
@@ -230,6 +295,7 @@ export async function info(...msgs: any[]) {
  * @param msgs The messages to write.
  */
 export async function warn(...msgs: any[]) {
+  await ensureConfig();
   const formatted = formatMessages("warn", ...msgs);
   const colored = colorize("warn", formatted);
   await writeToStream(config.stdout, colored);
@@ -240,6 +306,7 @@ export async function warn(...msgs: any[]) {
  * @param msgs The messages to write.
  */
 export async function error(...msgs: any[]) {
+  await ensureConfig();
   const formatted = formatMessages("error", ...msgs);
   const colored = colorize("error", formatted);
   await writeToStream(config.stderr, colored);
@@ -250,6 +317,7 @@ export async function error(...msgs: any[]) {
  * @param msgs The messages to write.
  */
 export async function fatal(...msgs: any[]) {
+  await ensureConfig();
   const formatted = formatMessages("fatal", ...msgs);
   const colored = colorize("fatal", formatted);
   await writeToStream(config.stderr, colored);
@@ -0,0 +1,313 @@
+import type { Command } from "./command";
+import { Choices, Option, Positional, valueName } from "./input";
+import {
+  childCommands,
+  inputEntries,
+  pageName,
+  rootOf,
+  versionOf,
+  visibleNames,
+} from "./tree";
+
+/**
+ * Options for generating man pages.
+ */
+export interface ManOpts {
+  /**
+   * The manual section. Defaults to `1`, for user commands.
+   */
+  section?: string | number;
+  /**
+   * The date shown in the footer, like `2024-01-31`. Defaults to today.
+   */
+  date?: string;
+  /**
+   * The source shown in the footer, like `mycli 1.0.0`. Defaults to the name and version of the root command.
+   */
+  source?: string;
+  /**
+   * The title of the manual shown in the header. Defaults to `<name> manual`.
+   */
+  manual?: string;
+}
+
+/**
+ * A generated man page.
+ */
+export interface ManPage {
+  /**
+   * The name of the page, like `mycli-deploy`.
+   */
+  name: string;
+  /**
+   * The file name of the page, like `mycli-deploy.1`.
+   */
+  file: string;
+  /**
+   * The roff source of the page.
+   */
+  content: string;
+}
+
+/**
+ * Generates a man page for every command in a command tree.
+ * Lazy commands only have their names and description until they are loaded, so call `loadAll()` first.
+ * @param command The root command.
+ * @param opts Options for generating the pages.
+ * @returns The pages, one per command path.
+ */
+export function generateManPages(
+  command: Command<any>,
+  opts: ManOpts = {},
+): ManPage[] {
+  const section = String(opts.section ?? 1);
+  const pages: ManPage[] = [];
+  const visit = (cmd: Command<any>) => {
+    const name = pageName(cmd);
+    pages.push({
+      name,
+      file: `${name}.${section}`,
+      content: generateManPage(cmd, opts),
+    });
+    childCommands(cmd).forEach(visit);
+  };
+  visit(command);
+  return pages;
+}
+
+/**
+ * Generates the man page of a single command.
+ * @param command The command.
+ * @param opts Options for generating the page.
+ * @returns The roff source of the page.
+ */
+export function generateManPage(
+  command: Command<any>,
+  opts: ManOpts = {},
+): string {
+  const root = rootOf(command);
+  const name = pageName(command);
+  const section = String(opts.section ?? 1);
+  const version = versionOf(command);
+  const date = opts.date ?? new Date().toISOString().slice(0, 10);
+  const source =
+    opts.source ?? [root.$names[0], version].filter(Boolean).join(" ");
+  const manual = opts.manual ?? `${root.$names[0]} manual`;
+
+  const lines = [
+    `.TH ${quote(name.toUpperCase())} ${quote(section)} ${quote(date)} ${quote(source)} ${quote(manual)}`,
+    ".SH NAME",
+    command.$description
+      ? `${escape(name)} \\- ${escape(firstLine(command.$description))}`
+      : escape(name),
+    ".SH SYNOPSIS",
+    synopsis(command),
+  ];
+
+  if (command.$description) {
+    lines.push(".SH DESCRIPTION", ...paragraphs(command.$description));
+  }
+
+  const entries = inputEntries(command);
+  const options = entries.filter(([, entry]) => entry instanceof Option);
+  lines.push(".SH OPTIONS");
+  for (const [key, entry] of options as [string, Option<any, any, any>][]) {
+    const names = visibleNames(entry)
+      .map((n) => {
+        if (n.length === 1) return bold(`-${n}`);
+        return entry.$kind === "boolean" && entry.$negatable
+          ? bold(`--[no-]${n}`)
+          : bold(`--${n}`);
+      })
+      .join(", ");
+    const value = valueName(entry);
+    lines.push(
+      ".TP",
+      value ? `${names} ${italic(value)}` : names,
+      escape(details(entry, command.envName(key, entry))),
+    );
+  }
+  lines.push(".TP", `${bold("-h")}, ${bold("--help")}`, "Show help.");
+  if (command.$version) {
+    lines.push(".TP", `${bold("-V")}, ${bold("--version")}`, "Show version.");
+  }
+
+  const positionals = entries.filter(
+    ([, entry]) => entry instanceof Positional,
+  );
+  if (positionals.length > 0) {
+    lines.push(".SH ARGUMENTS");
+    for (const [key, entry] of positionals as [
+      string,
+      Positional<any, any, any>,
+    ][]) {
+      lines.push(
+        ".TP",
+        italic(entry.$list ? `${key}...` : key),
+        escape(details(entry)),
+      );
+    }
+  }
+
+  const children = childCommands(command);
+  if (children.length > 0) {
+    lines.push(".SH SUBCOMMANDS");
+    for (const child of children) {
+      lines.push(
+        ".TP",
+        visibleNames(child).map(bold).join(", "),
+        escape(
+          [child.$description && firstLine(child.$description)]
+            .concat(`See ${pageName(child)}(${section}).`)
+            .filter(Boolean)
+            .join(" "),
+        ),
+      );
+    }
+  }
+
+  if (command.$examples.length > 0) {
+    lines.push(".SH EXAMPLES");
+    for (const example of command.$examples) {
+      if (example.description) {
+        lines.push(".PP", escape(example.description));
+      }
+      lines.push(".PP", ".RS", ".nf", escape(example.command), ".fi", ".RE");
+    }
+  }
+
+  if (version) {
+    lines.push(".SH VERSION", escape(version));
+  }
+
+  const related = [command.$parent, ...children]
+    .filter((cmd): cmd is Command<any> => cmd !== undefined)
+    .map((cmd) => `${bold(pageName(cmd))}(${section})`);
+  if (related.length > 0) {
+    lines.push(".SH SEE ALSO", related.join(", "));
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Synthesizes the synopsis of a command from its input.
+ * @param command The command.
+ * @returns The roff source of the synopsis.
+ */
+function synopsis(command: Command<any>): string {
+  const parts = [bold(command.fullCommandPath())];
+  for (const [key, entry] of inputEntries(command)) {
+    const required = entry.$required && entry.$default === undefined;
+    let part: string;
+    if (entry instanceof Option) {
+      const name = entry.$names.find((n) => n.length > 1) ?? entry.$names[0];
+      const value = valueName(entry);
+      part = bold(name.length === 1 ? `-${name}` : `--${name}`);
+      if (value) part += ` ${italic(value)}`;
+      if (entry.$list || entry.$kind === "count") part += "...";
+    } else {
+      part = italic(key) + (entry.$list ? "..." : "");
+    }
+    parts.push(required ? part : `[${part}]`);
+  }
+  if (command.$children.size > 0) {
+    parts.push(italic("command"));
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Describes an option or positional, with its constraints.
+ * @param entry The option or positional.
+ * @param env The environment variable the option falls back to.
+ * @returns The description.
+ */
+function details(
+  entry: Option<any, any, any> | Positional<any, any, any>,
+  env?: string,
+): string {
+  const parts: string[] = [];
+  if (entry.$description) parts.push(entry.$description);
+  if (entry.$kind instanceof Choices) {
+    parts.push(`One of: ${entry.$kind.$choices.join(", ")}.`);
+  }
+  if (entry.$required && entry.$default === undefined) {
+    parts.push("Required.");
+  } else if (entry.$default !== undefined && entry.$kind !== "count") {
+    const value = Array.isArray(entry.$default)
+      ? entry.$default.join(",")
+      : String(entry.$default);
+    parts.push(`Default: ${value}.`);
+  }
+  if (entry instanceof Option && (entry.$list || entry.$kind === "count")) {
+    parts.push("Can be repeated.");
+  }
+  if (env) parts.push(`Environment: ${env}.`);
+  if (entry.$deprecated) parts.push(`Deprecated: ${entry.$deprecated.message}`);
+  return parts.join(" ");
+}
+
+/**
+ * Gets the first line of a text.
+ * @param text The text.
+ * @returns The first line.
+ */
+function firstLine(text: string): string {
+  return text.split("\n")[0].trim();
+}
+
+/**
+ * Splits a text into roff paragraphs.
+ * @param text The text.
+ * @returns The roff lines.
+ */
+function paragraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .flatMap((p, i) => (i === 0 ? [escape(p)] : [".PP", escape(p)]));
+}
+
+/**
+ * Escapes text for roff.
+ * @param text The text.
+ * @returns The escaped text.
+ */
+function escape(text: string): string {
+  return (
+    text
+      .replace(/\\/g, "\\e")
+      .replace(/-/g, "\\-")
+      // lines starting with a dot or quote would be requests
+      .replace(/^([.'])/gm, "\\&$1")
+  );
+}
+
+/**
+ * Quotes an argument of a roff request.
+ * @param text The text.
+ * @returns The quoted text.
+ */
+function quote(text: string): string {
+  return `"${escape(text).replace(/"/g, '""')}"`;
+}
+
+/**
+ * Makes text bold.
+ * @param text The text.
+ * @returns The roff source.
+ */
+function bold(text: string): string {
+  return `\\fB${escape(text)}\\fR`;
+}
+
+/**
+ * Makes text italic.
+ * @param text The text.
+ * @returns The roff source.
+ */
+function italic(text: string): string {
+  return `\\fI${escape(text)}\\fR`;
+}
@@ -0,0 +1,475 @@
+import { Command, type Example } from "./command";
+import {
+  Choices,
+  Option,
+  Positional,
+  type BasicKind,
+  type Deprecation,
+  type Input,
+  type Kind,
+} from "./input";
+import { childCommands, inputEntries } from "./tree";
+
+/**
+ * The version of the manifest format. Bumped on breaking changes.
+ */
+export const MANIFEST_VERSION = 1;
+
+/**
+ * A JSON description of a command tree.
+ */
+export interface Manifest {
+  /**
+   * The version of the manifest format.
+   */
+  manifestVersion: typeof MANIFEST_VERSION;
+  /**
+   * The root command.
+   */
+  command: CommandManifest;
+}
+
+/**
+ * A JSON description of a command.
+ */
+export interface CommandManifest {
+  /**
+   * The name of the command.
+   */
+  name: string;
+  /**
+   * The aliases of the command.
+   */
+  aliases: string[];
+  /**
+   * The description of the command.
+   */
+  description?: string;
+  /**
+   * The version of the command.
+   */
+  version?: string;
+  /**
+   * If the command has an action. Commands without one print their help screen.
+   */
+  runnable: boolean;
+  /**
+   * If the command is hidden from help screens and completions.
+   */
+  hidden?: boolean;
+  /**
+   * Why the command is deprecated.
+   */
+  deprecated?: Deprecation;
+  /**
+   * The deprecated aliases of the command, with the message shown when they are used.
+   */
+  deprecatedAliases?: Record<string, string>;
+  /**
+   * The options of the command.
+   */
+  options: OptionManifest[];
+  /**
+   * The positional arguments of the command, in order.
+   */
+  positionals: PositionalManifest[];
+  /**
+   * Examples of how to use the command.
+   */
+  examples: Example[];
+  /**
+   * The subcommands.
+   */
+  children: CommandManifest[];
+}
+
+/**
+ * A JSON description of a kind.
+ */
+export type KindManifest =
+  | { type: BasicKind }
+  | { type: "choices"; choices: string[] }
+  | {
+      type: "schema";
+      /**
+       * The library the schema comes from.
+       */
+      vendor: string;
+      /**
+       * The JSON Schema of the input, if the library can export one.
+       */
+      jsonSchema?: Record<string, unknown>;
+    };
+
+/**
+ * A JSON description of an option.
+ */
+export interface OptionManifest {
+  /**
+   * The key of the option in the input.
+   */
+  key: string;
+  /**
+   * The names of the option, without dashes.
+   */
+  names: string[];
+  /**
+   * The kind of the option.
+   */
+  kind: KindManifest;
+  /**
+   * The description of the option.
+   */
+  description?: string;
+  /**
+   * If the option is a list.
+   */
+  list: boolean;
+  /**
+   * The separator of the list.
+   */
+  separator?: string;
+  /**
+   * If the option is required.
+   */
+  required: boolean;
+  /**
+   * The default value. Big integers are stored as strings.
+   */
+  default?: unknown;
+  /**
+   * The environment variable the option falls back to.
+   */
+  env?: string;
+  /**
+   * If the option is hidden from help screens and completions.
+   */
+  hidden?: boolean;
+  /**
+   * Why the option is deprecated.
+   */
+  deprecated?: Deprecation;
+  /**
+   * The deprecated names of the option, with the message shown when they are used.
+   */
+  deprecatedAliases?: Record<string, string>;
+}
+
+/**
+ * A JSON description of a positional argument.
+ */
+export interface PositionalManifest {
+  /**
+   * The key of the argument in the input.
+   */
+  key: string;
+  /**
+   * The kind of the argument.
+   */
+  kind: KindManifest;
+  /**
+   * The description of the argument.
+   */
+  description?: string;
+  /**
+   * If the argument is a list.
+   */
+  list: boolean;
+  /**
+   * If the argument is required.
+   */
+  required: boolean;
+  /**
+   * The default value. Big integers are stored as strings.
+   */
+  default?: unknown;
+  /**
+   * If the argument is hidden from help screens.
+   */
+  hidden?: boolean;
+  /**
+   * Why the argument is deprecated.
+   */
+  deprecated?: Deprecation;
+}
+
+/**
+ * Thrown when a manifest has a format this version can't read.
+ */
+export class ManifestVersionError extends Error {
+  /**
+   * The version of the manifest.
+   */
+  version: unknown;
+
+  /**
+   * Creates a new manifest version error.
+   * @param version The version of the manifest.
+   */
+  constructor(version: unknown) {
+    super(
+      `unsupported manifest version: ${String(version)} (expected ${MANIFEST_VERSION})`,
+    );
+    this.version = version;
+  }
+}
+
+/**
+ * Describes a command tree as JSON. Lazy commands are described as placeholders, so call `loadAll()` first.
+ * @param command The root command.
+ * @returns The manifest.
+ */
+export function toManifest(command: Command<any>): Manifest {
+  return {
+    manifestVersion: MANIFEST_VERSION,
+    command: commandManifest(command),
+  };
+}
+
+/**
+ * Rebuilds a command tree from a manifest. Actions are placeholders that throw,
+ * and Standard Schema kinds become strings, since neither can be serialized.
+ * @param manifest The manifest.
+ * @returns The root command.
+ */
+export function fromManifest(manifest: Manifest): Command<Input> {
+  if (manifest.manifestVersion !== MANIFEST_VERSION) {
+    throw new ManifestVersionError(manifest.manifestVersion);
+  }
+  return buildCommand(manifest.command);
+}
+
+/**
+ * Describes a command and its children.
+ * @param command The command.
+ * @returns The manifest of the command.
+ */
+function commandManifest(command: Command<any>): CommandManifest {
+  const options: OptionManifest[] = [];
+  const positionals: PositionalManifest[] = [];
+  // hidden entries are described too, with `hidden` set
+  for (const [key, entry] of inputEntries(command, true)) {
+    if (entry instanceof Option) {
+      options.push(
+        clean({
+          key,
+          names: entry.$names,
+          kind: kindManifest(entry.$kind),
+          description: entry.$description,
+          list: entry.$list,
+          separator: entry.$separator,
+          required: entry.$required,
+          default: serializeDefault(entry.$default),
+          env: entry.$env,
+          hidden: entry.$hidden || undefined,
+          deprecated: deprecationManifest(entry.$deprecated),
+          deprecatedAliases: aliasesManifest(entry.$deprecatedNames),
+        }),
+      );
+    } else {
+      positionals.push(
+        clean({
+          key,
+          kind: kindManifest(entry.$kind),
+          description: entry.$description,
+          list: entry.$list,
+          required: entry.$required,
+          default: serializeDefault(entry.$default),
+          hidden: entry.$hidden || undefined,
+          deprecated: deprecationManifest(entry.$deprecated),
+        }),
+      );
+    }
+  }
+
+  const children = childCommands(command, true);
+  return clean({
+    name: command.$names[0],
+    aliases: command.$names.slice(1),
+    description: command.$description,
+    version: command.$version,
+    runnable: command.$fn !== undefined,
+    hidden: command.$hidden || undefined,
+    deprecated: deprecationManifest(command.$deprecated),
+    deprecatedAliases: aliasesManifest(command.$deprecatedAliases),
+    options,
+    positionals,
+    examples: command.$examples.map((e) => clean({ ...e })),
+    children: children.map(commandManifest),
+  });
+}
+
+/**
+ * Describes a kind.
+ * @param kind The kind.
+ * @returns The manifest of the kind.
+ */
+function kindManifest(kind: Kind): KindManifest {
+  if (typeof kind === "string") return { type: kind };
+  if (kind instanceof Choices) {
+    return { type: "choices", choices: [...kind.$choices] };
+  }
+
+  const manifest: KindManifest = {
+    type: "schema",
+    vendor: kind["~standard"].vendor,
+  };
+  // libraries that implement Standard JSON Schema can describe their input
+  const converter = (kind["~standard"] as any).jsonSchema;
+  if (typeof converter?.input === "function") {
+    try {
+      manifest.jsonSchema = converter.input({ target: "draft-2020-12" });
+    } catch {
+      // some schemas, like transforms, can't be described
+    }
+  }
+  return manifest;
+}
+
+/**
+ * Makes a default value serializable.
+ * @param value The default value.
+ * @returns The serializable value.
+ */
+function serializeDefault(value: unknown): unknown {
+  if (typeof value === "bigint") return String(value);
+  if (Array.isArray(value)) return value.map(serializeDefault);
+  return value;
+}
+
+/**
+ * Describes a deprecation.
+ * @param deprecation The deprecation, if any.
+ * @returns The manifest of the deprecation.
+ */
+function deprecationManifest(
+  deprecation: Deprecation | undefined,
+): Deprecation | undefined {
+  return deprecation && clean({ ...deprecation });
+}
+
+/**
+ * Describes deprecated aliases.
+ * @param aliases The deprecated aliases.
+ * @returns The messages of the aliases, or `undefined` if there are none.
+ */
+function aliasesManifest(
+  aliases: Map<string, Deprecation>,
+): Record<string, string> | undefined {
+  if (aliases.size === 0) return undefined;
+  const manifest: Record<string, string> = {};
+  for (const [alias, { message }] of aliases) manifest[alias] = message;
+  return manifest;
+}
+
+/**
+ * Removes keys with undefined values, so manifests stay stable when serialized.
+ * @param obj The object.
+ * @returns The object, without undefined values.
+ */
+function clean<T extends object>(obj: T): T {
+  for (const key in obj) {
+    if (obj[key] === undefined) delete obj[key];
+  }
+  return obj;
+}
+
+/**
+ * Rebuilds a command and its children.
+ * @param manifest The manifest of the command.
+ * @returns The command.
+ */
+function buildCommand(manifest: CommandManifest): Command<Input> {
+  const command = new Command(
+    [manifest.name, ...manifest.aliases],
+    manifest.description,
+    manifest.version,
+  );
+  if (manifest.hidden) command.hidden();
+  if (manifest.deprecated) {
+    command.deprecated(
+      manifest.deprecated.message,
+      manifest.deprecated.replacement,
+    );
+  }
+  // the aliases are already among the names
+  for (const [alias, message] of Object.entries(
+    manifest.deprecatedAliases ?? {},
+  )) {
+    command.$deprecatedAliases.set(alias, { message });
+  }
+
+  const input: Input = {};
+  for (const opt of manifest.options) {
+    const entry = new Option(buildKind(opt.kind), opt.names);
+    if (opt.list) entry.list(opt.separator);
+    if (!opt.required) entry.optional();
+    if (opt.description !== undefined) entry.description(opt.description);
+    if (opt.default !== undefined) {
+      entry.default(parseDefault(opt.kind, opt.default));
+    }
+    if (opt.env !== undefined) entry.env(opt.env);
+    if (opt.hidden) entry.hidden();
+    if (opt.deprecated) {
+      entry.deprecated(opt.deprecated.message, opt.deprecated.replacement);
+    }
+    for (const [name, message] of Object.entries(opt.deprecatedAliases ?? {})) {
+      entry.$deprecatedNames.set(name, { message });
+    }
+    input[opt.key] = entry;
+  }
+  for (const pos of manifest.positionals) {
+    const entry = new Positional(buildKind(pos.kind));
+    if (pos.list) entry.list();
+    if (!pos.required) entry.optional();
+    if (pos.description !== undefined) entry.description(pos.description);
+    if (pos.default !== undefined) {
+      entry.default(parseDefault(pos.kind, pos.default));
+    }
+    if (pos.hidden) entry.hidden();
+    if (pos.deprecated) {
+      entry.deprecated(pos.deprecated.message, pos.deprecated.replacement);
+    }
+    input[pos.key] = entry;
+  }
+  command.input(input);
+
+  for (const example of manifest.examples) {
+    command.example(example.command, example.description);
+  }
+  if (manifest.runnable) {
+    command.action(() => {
+      throw new Error(
+        `${command.fullCommandPath()} was loaded from a manifest and can't run`,
+      );
+    });
+  }
+  for (const child of manifest.children) {
+    command.add(buildCommand(child));
+  }
+  return command;
+}
+
+/**
+ * Rebuilds a kind.
+ * @param kind The manifest of the kind.
+ * @returns The kind.
+ */
+function buildKind(kind: KindManifest): Kind {
+  if (kind.type === "choices") return new Choices(kind.choices);
+  if (kind.type === "schema") return "string";
+  return kind.type;
+}
+
+/**
+ * Rebuilds a default value.
+ * @param kind The manifest of the kind.
+ * @param value The serialized default value.
+ * @returns The default value.
+ */
+function parseDefault(kind: KindManifest, value: unknown): any {
+  if (kind.type !== "bigint") return value;
+  return Array.isArray(value)
+    ? value.map((v) => BigInt(v as string))
+    : BigInt(value as string);
+}
@@ -0,0 +1,334 @@
+import type { Theme } from "./color";
+import type { Command, MiddlewareFn } from "./command";
+import { versionOf } from "./tree";
+import {
+  cwd,
+  dirname,
+  fileUrl,
+  isAbsolute,
+  joinPath,
+  readDir,
+  readTextFile,
+  satisfies,
+} from "./utils";
+
+/**
+ * A plugin, which contributes subcommands and middleware to a CLI.
+ */
+export interface Plugin {
+  /**
+   * The name of the plugin.
+   */
+  name: string;
+  /**
+   * The version of the plugin.
+   */
+  version?: string;
+  /**
+   * The versions of the CLI the plugin works with, as a semver range like `^2.0.0`.
+   */
+  compatible?: string;
+  /**
+   * The subcommands the plugin adds.
+   */
+  commands?: Command<any>[];
+  /**
+   * The middleware the plugin adds to the command it is loaded into.
+   */
+  middlewares?: MiddlewareFn<any>[];
+  /**
+   * The theme of the subcommands the plugin adds, unless they have their own.
+   */
+  theme?: Theme;
+}
+
+/**
+ * A plugin that was added to a command.
+ */
+export interface LoadedPlugin {
+  /**
+   * The name of the plugin.
+   */
+  name: string;
+  /**
+   * The version of the plugin.
+   */
+  version?: string;
+  /**
+   * The directory of the package the plugin was loaded from, if it was discovered.
+   */
+  path?: string;
+  /**
+   * The names of the subcommands the plugin added.
+   */
+  commands: string[];
+}
+
+/**
+ * A package that was discovered as a plugin.
+ */
+export interface PluginPackage {
+  /**
+   * The name of the package.
+   */
+  name: string;
+  /**
+   * The directory of the package.
+   */
+  path: string;
+  /**
+   * The path of the module to import.
+   */
+  entry: string;
+}
+
+/**
+ * Options for discovering plugins.
+ */
+export interface PluginOpts {
+  /**
+   * The prefix of plugin package names, also after a scope. Defaults to `<name>-plugin-`.
+   */
+  prefix?: string;
+  /**
+   * A `package.json` field that marks a package as a plugin, whatever its name. Defaults to `<name>Plugin`.
+   */
+  field?: string;
+  /**
+   * The directory to look for `node_modules` from, walking up. Defaults to the working directory.
+   * Pass `false` to skip `node_modules`.
+   */
+  from?: string | false;
+  /**
+   * More directories of plugin packages. Every package in them is a plugin.
+   */
+  dirs?: string[];
+  /**
+   * Handles plugins that fail to load. Without it, the error is thrown.
+   */
+  onError?: (error: PluginError) => void;
+}
+
+/**
+ * Thrown when a plugin can't be loaded.
+ */
+export class PluginError extends Error {
+  /**
+   * The name of the plugin.
+   */
+  plugin: string;
+
+  /**
+   * Creates a new plugin error.
+   * @param plugin The name of the plugin.
+   * @param message The message.
+   */
+  constructor(plugin: string, message: string) {
+    super(`plugin ${plugin}: ${message}`);
+    this.plugin = plugin;
+  }
+}
+
+/**
+ * Defines a plugin. This only adds types, so the default export of a plugin package is checked.
+ * @param plugin The plugin.
+ * @returns The plugin.
+ */
+export function definePlugin(plugin: Plugin): Plugin {
+  return plugin;
+}
+
+/**
+ * Adds a plugin to a command. Nothing is added if the plugin is incompatible or its subcommands collide.
+ * @param command The command.
+ * @param plugin The plugin.
+ * @param path The directory the plugin was loaded from.
+ */
+export function registerPlugin(
+  command: Command<any>,
+  plugin: Plugin,
+  path?: string,
+): void {
+  if (command.$plugins.some((p) => p.name === plugin.name)) {
+    throw new PluginError(plugin.name, "is already loaded");
+  }
+
+  const version = versionOf(command);
+  if (plugin.compatible && version && !satisfies(version, plugin.compatible)) {
+    throw new PluginError(
+      plugin.name,
+      `requires ${command.$names[0]} ${plugin.compatible}, but this is ${version}`,
+    );
+  }
+
+  // check every name first, so a plugin is added completely or not at all
+  const commands = plugin.commands ?? [];
+  const names = new Set<string>();
+  for (const child of commands) {
+    for (const name of child.$names) {
+      const owner = command.$plugins.find((p) => p.commands.includes(name));
+      if (command.$children.has(name) || names.has(name)) {
+        throw new PluginError(
+          plugin.name,
+          `command "${name}" is already defined${owner ? ` by plugin ${owner.name}` : ""}`,
+        );
+      }
+      names.add(name);
+    }
+  }
+
+  for (const child of commands) {
+    if (plugin.theme) child.$theme ??= plugin.theme;
+    command.add(child);
+  }
+  if (plugin.middlewares) command.use(...plugin.middlewares);
+  command.$plugins.push({
+    name: plugin.name,
+    version: plugin.version,
+    path,
+    commands: [...names],
+  });
+}
+
+/**
+ * Discovers plugins and adds them to a command.
+ * @param command The command.
+ * @param opts Options for discovering plugins.
+ */
+export async function loadPlugins(
+  command: Command<any>,
+  opts: PluginOpts = {},
+): Promise<void> {
+  for (const pkg of await discoverPlugins(command.$names[0], opts)) {
+    try {
+      registerPlugin(command, await importPlugin(pkg), pkg.path);
+    } catch (e) {
+      if (!(e instanceof PluginError) || !opts.onError) throw e;
+      opts.onError(e);
+    }
+  }
+}
+
+/**
+ * Finds plugin packages in `node_modules` and plugin directories.
+ * @param name The name of the CLI, used for the default prefix and field.
+ * @param opts Options for discovering plugins.
+ * @returns The packages, sorted by name.
+ */
+export async function discoverPlugins(
+  name: string,
+  opts: PluginOpts = {},
+): Promise<PluginPackage[]> {
+  const prefix = opts.prefix ?? `${name}-plugin-`;
+  const field = opts.field ?? `${name}Plugin`;
+  const found = new Map<string, PluginPackage>();
+
+  const visit = async (dir: string, all: boolean) => {
+    for (const pkg of await listPackages(dir)) {
+      if (found.has(pkg.name)) continue;
+      const base = pkg.name.slice(pkg.name.indexOf("/") + 1);
+      if (all || base.startsWith(prefix) || pkg.json[field]) {
+        found.set(pkg.name, {
+          name: pkg.name,
+          path: pkg.path,
+          entry: joinPath(pkg.path, entryOf(pkg.json)),
+        });
+      }
+    }
+  };
+
+  // plugin directories come first, so they can override installed packages
+  for (const dir of opts.dirs ?? []) {
+    await visit(isAbsolute(dir) ? dir : joinPath(cwd(), dir), true);
+  }
+  if (opts.from !== false) {
+    let dir = opts.from ?? cwd();
+    if (!isAbsolute(dir)) dir = joinPath(cwd(), dir);
+    while (true) {
+      await visit(joinPath(dir, "node_modules"), false);
+      const parent = dirname(dir);
+      if (parent === dir) break;
+      dir = parent;
+    }
+  }
+
+  return [...found.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Imports the plugin of a package.
+ * @param pkg The package.
+ * @returns The plugin, which is the default export.
+ */
+export async function importPlugin(pkg: PluginPackage): Promise<Plugin> {
+  let mod: { default?: unknown };
+  try {
+    mod = await import(fileUrl(pkg.entry));
+  } catch (e) {
+    throw new PluginError(
+      pkg.name,
+      `can't be imported: ${e instanceof Error ? e.message : String(e)}`,
+    );
+  }
+
+  const plugin = mod.default as Plugin | undefined;
+  if (!plugin || typeof plugin.name !== "string") {
+    throw new PluginError(pkg.name, "doesn't export a plugin as default");
+  }
+  return plugin;
+}
+
+/**
+ * Lists the packages in a `node_modules`-like directory, including scoped ones.
+ * @param dir The directory.
+ * @returns The packages, with their `package.json`.
+ */
+async function listPackages(
+  dir: string,
+): Promise<{ name: string; path: string; json: Record<string, any> }[]> {
+  let names: string[];
+  try {
+    names = await readDir(dir);
+  } catch {
+    return [];
+  }
+
+  const packages: { name: string; path: string; json: Record<string, any> }[] =
+    [];
+  for (const name of names.sort()) {
+    if (name.startsWith(".")) continue;
+    if (name.startsWith("@")) {
+      for (const pkg of await listPackages(joinPath(dir, name))) {
+        packages.push({ ...pkg, name: `${name}/${pkg.name}` });
+      }
+      continue;
+    }
+
+    const path = joinPath(dir, name);
+    try {
+      const json = JSON.parse(
+        await readTextFile(joinPath(path, "package.json")),
+      );
+      packages.push({ name, path, json });
+    } catch {
+      // not a package
+    }
+  }
+  return packages;
+}
+
+/**
+ * Gets the module to import from a `package.json`.
+ * @param json The `package.json`.
+ * @returns The path of the module, relative to the package.
+ */
+function entryOf(json: Record<string, any>): string {
+  let entry = json.exports;
+  if (entry && typeof entry === "object" && "." in entry) entry = entry["."];
+  // conditional exports, like `{ import: "./index.mjs" }`
+  while (entry && typeof entry === "object" && !Array.isArray(entry)) {
+    entry = entry.import ?? entry.default ?? entry.node;
+  }
+  if (typeof entry === "string") return entry;
+  return json.module ?? json.main ?? "index.js";
+}
@@ -1,5 +1,59 @@
 import { isDeno } from "@/utils";
 
+/**
+ * A scripted terminal, which answers prompts instead of the user.
+ */
+export interface Script {
+  /**
+   * The answers that are left, in order. Text prompts take a line, like `Alice`,
+   * and select prompts take a key, like `down`, `space` or `enter`.
+   */
+  answers: string[];
+  /**
+   * Writes what the prompts print.
+   * @param text The text.
+   */
+  write(text: string): void;
+}
+
+let script: Script | undefined;
+
+/**
+ * Answers prompts from a script instead of standard input.
+ * @param s The script, or `undefined` to read standard input again.
+ */
+export function setScript(s?: Script) {
+  script = s;
+}
+
+/**
+ * Takes the next answer from the script.
+ * @param s The script.
+ * @returns The answer.
+ */
+function nextAnswer(s: Script): string {
+  const answer = s.answers.shift();
+  if (answer === undefined) {
+    throw new Error("the prompt ran out of scripted answers");
+  }
+  return answer;
+}
+
+/**
+ * Gets the name of a key, like `enter` or `up`.
+ * @param s The data that was read.
+ * @returns The name of the key, or the data itself.
+ */
+function keyName(s: string): string {
+  if (s === "\r" || s === "\n") return "enter";
+  if (s === " ") return "space";
+  if (s === "\u001b[A") return "up";
+  if (s === "\u001b[B") return "down";
+  if (s === "\u001b[C") return "right";
+  if (s === "\u001b[D") return "left";
+  return s;
+}
+
 /**
  * Reads a line from standard input.
  * @param message The message.
@@ -12,6 +66,14 @@ export async function readLine(
   def?: string,
   opts?: { masked?: boolean; maskChar?: string; multiline?: boolean },
 ): Promise<string> {
+  if (script) {
+    script.write(message);
+    const answer = nextAnswer(script);
+    // masked answers aren't echoed
+    script.write(opts?.masked ? "\n" : answer + "\n");
+    return answer || def || "";
+  }
+
   // Deno
   if (isDeno) {
     await Deno.stdout.write(new TextEncoder().encode(message));
@@ -62,6 +124,8 @@ export async function readLine(
  * @returns The key that was read.
  */
 export async function readKey(): Promise<string> {
+  if (script) return keyName(nextAnswer(script));
+
   return new Promise((resolve) => {
     const stdin = process.stdin;
     stdin.setRawMode(true);
@@ -70,13 +134,7 @@ export async function readKey(): Promise<string> {
       const s = data.toString();
       stdin.setRawMode(false);
       stdin.pause();
-      if (s === "\r" || s === "\n") return resolve("enter");
-      if (s === " ") return resolve("space");
-      if (s === "\u001b[A") return resolve("up");
-      if (s === "\u001b[B") return resolve("down");
-      if (s === "\u001b[C") return resolve("right");
-      if (s === "\u001b[D") return resolve("left");
-      return resolve(s);
+      resolve(keyName(s));
     });
   });
 }
@@ -86,6 +144,8 @@ export async function readKey(): Promise<string> {
  * @param lines Amount of lines to clear.
  */
 export function clearLines(lines = 1) {
+  // scripted terminals have no cursor
+  if (script) return;
   for (let i = 0; i < lines; i++) process.stdout.write("\x1b[2K\x1b[1A");
   process.stdout.write("\x1b[2K\r");
 }
@@ -95,6 +155,7 @@ export function clearLines(lines = 1) {
  * @param n The amount of steps to move.
  */
 export function cursorUp(n = 1) {
+  if (script) return;
   process.stdout.write(`\x1b[${n}A`);
 }
 
@@ -103,5 +164,6 @@ export function cursorUp(n = 1) {
  * @param n The amount of steps to move.
  */
 export function cursorDown(n = 1) {
+  if (script) return;
   process.stdout.write(`\x1b[${n}B`);
 }
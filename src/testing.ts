@@ -0,0 +1,212 @@
+import { overrideColor } from "./color";
+import type { Command, HookFn } from "./command";
+import { getConfig, setConfig } from "./log";
+import { setScript } from "./prompt/raw";
+import { overrideColumns, overrideEnv, overrideInteractive } from "./utils";
+
+/**
+ * Options for running a command in a test.
+ */
+export interface TestOpts {
+  /**
+   * What the command reads from standard input.
+   */
+  stdin?: string;
+  /**
+   * The environment variables the command sees. They replace the real ones, so tests don't depend on the machine.
+   */
+  env?: Record<string, string | undefined>;
+  /**
+   * Answers to prompts, in order. Text prompts take a line, like `Alice`,
+   * and select prompts take a key, like `down`, `space` or `enter`.
+   */
+  answers?: string[];
+  /**
+   * If standard input is a terminal, so missing required input is prompted for. Defaults to `true` when there are answers.
+   */
+  tty?: boolean;
+  /**
+   * The width of the terminal. Defaults to 80.
+   */
+  columns?: number;
+  /**
+   * If output is colored. Defaults to `false`.
+   */
+  color?: boolean;
+}
+
+/**
+ * The result of running a command in a test.
+ */
+export interface TestResult {
+  /**
+   * Everything that was printed to standard output.
+   */
+  stdout: string;
+  /**
+   * Everything that was printed to standard error.
+   */
+  stderr: string;
+  /**
+   * The exit code.
+   */
+  exitCode: number;
+  /**
+   * The errors from parsing or the action.
+   */
+  errors: Error[];
+  /**
+   * The parsed input of the command that ran.
+   */
+  input: Record<string, unknown>;
+}
+
+// runs share the console and terminal, so they are queued
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs a command in-process, with in-memory streams instead of the terminal.
+ * It doesn't rely on the mocks of a test runner, so it works with any of them.
+ * @param cmd The command.
+ * @param argv The arguments to run the command with.
+ * @param opts Options for running the command.
+ * @returns The output, exit code, errors and input of the run.
+ */
+export function testCommand(
+  cmd: Command<any, any>,
+  argv: string[],
+  opts: TestOpts = {},
+): Promise<TestResult> {
+  const run = queue.then(() => runTest(cmd, argv, opts));
+  queue = run.catch(() => {});
+  return run;
+}
+
+/**
+ * Runs a command with in-memory streams.
+ * @param cmd The command.
+ * @param argv The arguments to run the command with.
+ * @param opts Options for running the command.
+ * @returns The result of the run.
+ */
+async function runTest(
+  cmd: Command<any, any>,
+  argv: string[],
+  opts: TestOpts,
+): Promise<TestResult> {
+  const result: TestResult = {
+    stdout: "",
+    stderr: "",
+    exitCode: 0,
+    errors: [],
+    input: {},
+  };
+  const collect: HookFn = ({ errors, input }) => {
+    result.errors = errors;
+    result.input = input;
+  };
+
+  const previous = await getConfig();
+  const restoreConsole = captureConsole(
+    (text) => (result.stdout += text),
+    (text) => (result.stderr += text),
+  );
+  await setConfig({
+    format: previous.format,
+    stdout: memoryWritable((text) => (result.stdout += text)),
+    stderr: memoryWritable((text) => (result.stderr += text)),
+    stdin: memoryReadable(opts.stdin ?? ""),
+  });
+  overrideEnv({ ...opts.env });
+  overrideColumns(opts.columns ?? 80);
+  overrideColor(opts.color ?? false);
+  overrideInteractive(opts.tty ?? opts.answers !== undefined);
+  setScript({
+    answers: [...(opts.answers ?? [])],
+    write: (text) => (result.stdout += text),
+  });
+  cmd.hook("onFinally", collect);
+
+  try {
+    result.exitCode = await cmd.run(argv);
+  } finally {
+    const hooks = cmd.$hooks.onFinally!;
+    hooks.splice(hooks.indexOf(collect), 1);
+    setScript(undefined);
+    overrideColor(undefined);
+    overrideInteractive(undefined);
+    overrideColumns(undefined);
+    overrideEnv(undefined);
+    await setConfig(previous);
+    restoreConsole();
+  }
+  return result;
+}
+
+/**
+ * Redirects the console to functions.
+ * @param out Receives what is logged to standard output.
+ * @param err Receives what is logged to standard error.
+ * @returns A function that restores the console.
+ */
+function captureConsole(
+  out: (text: string) => void,
+  err: (text: string) => void,
+): () => void {
+  const methods = { log: out, info: out, debug: out, warn: err, error: err };
+  const originals: Record<string, (...args: any[]) => void> = {};
+  for (const [name, write] of Object.entries(methods)) {
+    originals[name] = (console as any)[name];
+    (console as any)[name] = (...args: any[]) =>
+      write(args.map(formatValue).join(" ") + "\n");
+  }
+
+  return () => {
+    for (const [name, original] of Object.entries(originals)) {
+      (console as any)[name] = original;
+    }
+  };
+}
+
+/**
+ * Formats a value like the console does, roughly.
+ * @param value The value.
+ * @returns The formatted value.
+ */
+function formatValue(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value instanceof Error) return String(value);
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Creates a stream that writes to a function.
+ * @param write Receives the text that is written.
+ * @returns The stream.
+ */
+function memoryWritable(write: (text: string) => void): WritableStream<string> {
+  const decoder = new TextDecoder();
+  return new WritableStream({
+    write(chunk: string | Uint8Array) {
+      write(typeof chunk === "string" ? chunk : decoder.decode(chunk));
+    },
+  });
+}
+
+/**
+ * Creates a stream that reads a string.
+ * @param text The text.
+ * @returns The stream.
+ */
+function memoryReadable(text: string): ReadableStream<string> {
+  return new ReadableStream({
+    start(controller) {
+      if (text) controller.enqueue(text);
+      controller.close();
+    },
+  });
+}
@@ -0,0 +1,86 @@
+import type { Command } from "./command";
+import type { Option, Positional } from "./input";
+
+/**
+ * An option or positional argument, with its key in the input.
+ */
+export type InputEntry = [
+  key: string,
+  entry: Option<any, any, any> | Positional<any, any, any>,
+];
+
+/**
+ * Gets the children of a command, without duplicates from aliases.
+ * @param command The command.
+ * @param hidden If hidden children are included.
+ * @returns The children.
+ */
+export function childCommands(
+  command: Command<any>,
+  hidden = false,
+): Command<any>[] {
+  return Array.from(
+    new Set([...command.$children.values()].map((a) => a.command)),
+  ).filter((child) => hidden || !child.$hidden);
+}
+
+/**
+ * Gets the options and positional arguments of a command, in order.
+ * @param command The command.
+ * @param hidden If hidden entries are included.
+ * @returns The entries.
+ */
+export function inputEntries(
+  command: Command<any>,
+  hidden = false,
+): InputEntry[] {
+  return (Object.entries(command.$input) as InputEntry[]).filter(
+    ([, entry]) => hidden || !entry.$hidden,
+  );
+}
+
+/**
+ * Gets the names of a command or option, without deprecated ones, which are never shown.
+ * @param target The command or option.
+ * @returns The names.
+ */
+export function visibleNames(
+  target: Command<any> | Option<any, any, any>,
+): string[] {
+  const deprecated =
+    "$deprecatedAliases" in target
+      ? target.$deprecatedAliases
+      : target.$deprecatedNames;
+  return target.$names.filter((n) => !deprecated.has(n));
+}
+
+/**
+ * Gets the root of a command tree.
+ * @param command The command.
+ * @returns The root command.
+ */
+export function rootOf(command: Command<any>): Command<any> {
+  let current = command;
+  while (current.$parent) current = current.$parent;
+  return current;
+}
+
+/**
+ * Gets the version of a command, falling back to its parents.
+ * @param command The command.
+ * @returns The version, if there is one.
+ */
+export function versionOf(command: Command<any>): string | undefined {
+  let current: Command<any> | undefined = command;
+  while (current && !current.$version) current = current.$parent;
+  return current?.$version;
+}
+
+/**
+ * Gets the name of the page of a command, like `mycli-deploy`. Man pages, docs and external commands use it.
+ * @param command The command.
+ * @returns The name of the page.
+ */
+export function pageName(command: Command<any>): string {
+  return command.fullCommandPath().replace(/ /g, "-");
+}
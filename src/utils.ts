@@ -18,6 +18,364 @@ export const isDeno =
 export const isBun =
   typeof Bun !== "undefined" && typeof Bun.version === "string";
 
+/**
+ * If the operating system is Windows.
+ */
+export const isWindows = isDeno
+  ? Deno.build?.os === "windows"
+  : typeof process !== "undefined" && process.platform === "win32";
+
+/**
+ * Sets the exit code of the process, in a cross-runtime way.
+ * Node.js and Bun exit once pending work is done, Deno exits immediately.
+ * @param code The exit code.
+ */
+export function setExitCode(code: number) {
+  if (isDeno) Deno.exit(code);
+  else if (typeof process !== "undefined") process.exitCode = code;
+}
+
+/**
+ * Exits the process immediately, in a cross-runtime way.
+ * @param code The exit code.
+ */
+function exit(code: number) {
+  if (isDeno) Deno.exit(code);
+  else if (typeof process !== "undefined") process.exit(code);
+}
+
+/**
+ * Listens for the first interrupt, like Ctrl+C, in a cross-runtime way.
+ * A second interrupt exits with code 130, like the default handler, so actions that ignore the first can't hang.
+ * @param fn Called on the first interrupt.
+ * @returns A function that stops listening.
+ */
+export function onInterrupt(fn: () => void): () => void {
+  let interrupted = false;
+  const handler = () => {
+    if (interrupted) return exit(130);
+    interrupted = true;
+    fn();
+  };
+
+  if (isDeno) {
+    try {
+      Deno.addSignalListener("SIGINT", handler);
+    } catch {
+      // signals can't be listened to without permissions
+      return () => {};
+    }
+    return () => {
+      try {
+        Deno.removeSignalListener("SIGINT", handler);
+      } catch {
+        // already removed
+      }
+    };
+  }
+
+  if (typeof process === "undefined" || typeof process.on !== "function") {
+    return () => {};
+  }
+  process.on("SIGINT", handler);
+  return () => process.off("SIGINT", handler);
+}
+
+// replaced by `testCommand`, so tests don't depend on the real terminal
+let envOverride: Record<string, string | undefined> | undefined;
+let columnsOverride: number | undefined;
+let interactiveOverride: boolean | undefined;
+
+/**
+ * Replaces the environment variables seen by `getEnv`.
+ * @param env The environment variables, or `undefined` to use the real ones again.
+ */
+export function overrideEnv(env?: Record<string, string | undefined>) {
+  envOverride = env;
+}
+
+/**
+ * Replaces the width returned by `terminalWidth`.
+ * @param columns The amount of columns, or `undefined` to detect it again.
+ */
+export function overrideColumns(columns?: number) {
+  columnsOverride = columns;
+}
+
+/**
+ * Replaces the result of `isInteractive`.
+ * @param interactive If standard input is a terminal, or `undefined` to detect it again.
+ */
+export function overrideInteractive(interactive?: boolean) {
+  interactiveOverride = interactive;
+}
+
+/**
+ * Gets an environment variable, in a cross-runtime way.
+ * @param name The name of the environment variable.
+ * @returns The value, or `undefined` if it isn't set or can't be read.
+ */
+export function getEnv(name: string): string | undefined {
+  if (envOverride) return envOverride[name];
+
+  if (isDeno) {
+    try {
+      return Deno.env.get(name);
+    } catch {
+      // Deno throws without `--allow-env`
+      return undefined;
+    }
+  }
+
+  if (typeof process !== "undefined") {
+    return process.env?.[name];
+  }
+  return undefined;
+}
+
+/**
+ * Gets the width of the terminal, in a cross-runtime way.
+ * @returns The amount of columns, or 80 if it isn't known.
+ */
+export function terminalWidth(): number {
+  if (columnsOverride !== undefined) return columnsOverride;
+
+  if (isDeno) {
+    try {
+      return Deno.consoleSize().columns;
+    } catch {
+      // Deno throws if stdout isn't a terminal
+    }
+  } else if (typeof process !== "undefined" && process.stdout?.columns) {
+    return process.stdout.columns;
+  }
+
+  const columns = parseInt(getEnv("COLUMNS") ?? "", 10);
+  return columns > 0 ? columns : 80;
+}
+
+/**
+ * Checks if standard input is a terminal, so the user can be prompted, in a cross-runtime way.
+ * @returns If standard input is a terminal.
+ */
+export function isInteractive(): boolean {
+  if (interactiveOverride !== undefined) return interactiveOverride;
+
+  if (isDeno) return Deno.stdin.isTerminal();
+  if (typeof process !== "undefined") return !!process.stdin?.isTTY;
+  return false;
+}
+
+/**
+ * Gets the current working directory, in a cross-runtime way.
+ * @returns The current working directory.
+ */
+export function cwd(): string {
+  if (isDeno) return Deno.cwd();
+  return process.cwd();
+}
+
+/**
+ * Gets the home directory of the user.
+ * @returns The home directory, if it is known.
+ */
+export function homeDir(): string | undefined {
+  return getEnv("HOME") ?? getEnv("USERPROFILE");
+}
+
+/**
+ * Joins path segments.
+ * @param parts The path segments.
+ * @returns The joined path.
+ */
+export function joinPath(...parts: string[]): string {
+  return parts.join("/").replace(/[\\/]+/g, "/");
+}
+
+/**
+ * Gets the parent directory of a path.
+ * @param path The path.
+ * @returns The parent directory, or the path itself if it is a root.
+ */
+export function dirname(path: string): string {
+  const trimmed = path.replace(/[\\/]+$/, "");
+  const index = Math.max(trimmed.lastIndexOf("/"), trimmed.lastIndexOf("\\"));
+  if (index < 0) return path;
+  if (index === 0) return trimmed[0];
+  return trimmed.slice(0, index);
+}
+
+/**
+ * Reads a text file, in a cross-runtime way.
+ * @param path The path of the file.
+ * @returns The contents of the file.
+ */
+export async function readTextFile(path: string): Promise<string> {
+  if (isDeno) return Deno.readTextFile(path);
+  if (isBun) return Bun.file(path).text();
+
+  const { readFile } = await import("node:fs/promises");
+  return readFile(path, "utf8");
+}
+
+/**
+ * Lists the entries of a directory, in a cross-runtime way.
+ * @param path The path of the directory.
+ * @returns The names of the entries.
+ */
+export async function readDir(path: string): Promise<string[]> {
+  if (isDeno) {
+    const names: string[] = [];
+    for await (const entry of Deno.readDir(path)) names.push(entry.name);
+    return names;
+  }
+
+  const { readdir } = await import("node:fs/promises");
+  return readdir(path);
+}
+
+/**
+ * Checks if a path is absolute, on POSIX or Windows.
+ * @param path The path.
+ * @returns If the path is absolute.
+ */
+export function isAbsolute(path: string): boolean {
+  return /^([\\/]|[A-Za-z]:[\\/])/.test(path);
+}
+
+/**
+ * Converts an absolute path to a `file:` URL, which `import()` accepts on every runtime.
+ * @param path The absolute path.
+ * @returns The URL.
+ */
+export function fileUrl(path: string): string {
+  // characters like `#`, `?` and `%` would otherwise be read as parts of the URL
+  const encoded = path
+    .replace(/\\/g, "/")
+    .split("/")
+    .map((segment) =>
+      /^[A-Za-z]:$/.test(segment) ? segment : encodeURIComponent(segment),
+    )
+    .join("/");
+  return `file://${encoded.startsWith("/") ? "" : "/"}${encoded}`;
+}
+
+/**
+ * Checks if a version satisfies a semver range, like `^1.2.0` or `>=1.0.0 <3 || 4.x`.
+ * Prerelease tags are ignored.
+ * @param version The version.
+ * @param range The range.
+ * @returns If the version is in the range.
+ */
+export function satisfies(version: string, range: string): boolean {
+  const match = /^v?(\d+)\.(\d+)\.(\d+)/.exec(version.trim());
+  if (!match) return false;
+  const v = match.slice(1).map(Number);
+  return range.split("||").some((set) =>
+    set
+      .trim()
+      .replace(/(\^|~|[<>]=?|=)\s+/g, "$1")
+      .split(/\s+/)
+      .every((comparator) => matchesComparator(v, comparator)),
+  );
+}
+
+/**
+ * Checks if a version matches a single comparator, like `^1.2.0`.
+ * @param v The parts of the version.
+ * @param comparator The comparator.
+ * @returns If the version matches.
+ */
+function matchesComparator(v: number[], comparator: string): boolean {
+  if (comparator === "") return true;
+  const match =
+    /^(\^|~|[<>]=?|=)?v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:[-+].*)?$/.exec(
+      comparator,
+    );
+  if (!match) return false;
+
+  const [, op = "", ...parts] = match;
+  // `1.x` and `1` only fix the major version
+  let precision = parts.findIndex((p) => p === undefined || /[xX*]/.test(p));
+  if (precision === -1) precision = 3;
+  if (precision === 0) return op !== "<" && op !== ">";
+
+  const lower = [0, 1, 2].map((i) => (i < precision ? Number(parts[i]) : 0));
+  const bump = (index: number) =>
+    lower.map((n, i) => (i < index ? n : i === index ? n + 1 : 0));
+  const cmp = (other: number[]) => {
+    for (let i = 0; i < 3; i++) {
+      if (v[i] !== other[i]) return v[i] - other[i];
+    }
+    return 0;
+  };
+
+  switch (op) {
+    case "^": {
+      // the first non-zero part can't change
+      const index = lower.findIndex((n, i) => n !== 0 || i === precision - 1);
+      return cmp(lower) >= 0 && cmp(bump(index)) < 0;
+    }
+    case "~":
+      return cmp(lower) >= 0 && cmp(bump(precision > 1 ? 1 : 0)) < 0;
+    case ">=":
+      return cmp(lower) >= 0;
+    case ">":
+      return precision === 3 ? cmp(lower) > 0 : cmp(bump(precision - 1)) >= 0;
+    case "<":
+      return cmp(lower) < 0;
+    case "<=":
+      return precision === 3 ? cmp(lower) <= 0 : cmp(bump(precision - 1)) < 0;
+    default:
+      return precision === 3
+        ? cmp(lower) === 0
+        : cmp(lower) >= 0 && cmp(bump(precision - 1)) < 0;
+  }
+}
+
+/**
+ * Computes the edit distance between two strings.
+ * @param a The first string.
+ * @param b The second string.
+ * @returns The amount of insertions, deletions and substitutions to turn one into the other.
+ */
+export function distance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(
+        prev[j] + 1,
+        row[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Finds the candidates that are close to a value, like "did you mean...?" hints.
+ * @param value The value the user typed.
+ * @param candidates The valid values.
+ * @param threshold The maximum edit distance.
+ * @returns The close candidates, closest first.
+ */
+export function suggest(
+  value: string,
+  candidates: Iterable<string>,
+  threshold = 2,
+): string[] {
+  // a distance as long as the value itself means nothing in common
+  const max = Math.min(threshold, value.length - 1);
+  return [...new Set(candidates)]
+    .map((candidate) => ({ candidate, d: distance(value, candidate) }))
+    .filter(({ d }) => d <= max)
+    .sort((a, b) => a.d - b.d)
+    .map(({ candidate }) => candidate);
+}
+
 /**
  * All TypeScript primitive types.
  */
@@ -0,0 +1,106 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { Command, i } from "@/index";
+import { ArgFileSyntaxError, expandArgFiles, tokenize } from "@/argfile";
+import { testCommand } from "@/testing";
+
+describe("tokenize()", () => {
+  test("splits arguments like a shell", () => {
+    const text = [
+      "--name 'Alice Smith' \"say \\\"hi\\\"\" ''",
+      "# a comment",
+      "a\\ b C:\\src\\app.ts not#comment",
+      "long\\",
+      "line @nested.txt \\@literal",
+    ].join("\n");
+    expect(tokenize(text, "args.txt")).toEqual([
+      { value: "--name", line: 1, include: false },
+      { value: "Alice Smith", line: 1, include: false },
+      { value: 'say "hi"', line: 1, include: false },
+      { value: "", line: 1, include: false },
+      { value: "a b", line: 3, include: false },
+      { value: "C:\\src\\app.ts", line: 3, include: false },
+      { value: "not#comment", line: 3, include: false },
+      { value: "longline", line: 4, include: false },
+      { value: "@nested.txt", line: 5, include: true },
+      { value: "@literal", line: 5, include: false },
+    ]);
+  });
+
+  test("reports unterminated quotes", () => {
+    expect(() => tokenize("a\n'b\nc", "args.txt")).toThrow(
+      new ArgFileSyntaxError("unterminated single quote", "args.txt", 2),
+    );
+  });
+});
+
+describe("expandArgFiles()", () => {
+  let dir: string;
+
+  async function write(name: string, text: string) {
+    await fs.mkdir(path.dirname(path.join(dir, name)), { recursive: true });
+    await fs.writeFile(path.join(dir, name), text);
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "convoker-"));
+    await write("args.txt", "one\n@sub/more.txt\nfour");
+    await write("sub/more.txt", "two three");
+    await write("loop.txt", "x\n@loop.txt");
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("replaces files with their arguments, relative to the including file", async () => {
+    const file = path.join(dir, "args.txt");
+    expect(
+      await expandArgFiles(["start", `@${file}`, "@@user", "--", `@${file}`]),
+    ).toEqual([
+      "start",
+      "one",
+      "two",
+      "three",
+      "four",
+      "@user",
+      "--",
+      `@${file}`,
+    ]);
+  });
+
+  test("names the file and line of errors", async () => {
+    const loop = path.join(dir, "loop.txt");
+    await expect(expandArgFiles([`@${loop}`])).rejects.toThrow(
+      `${loop}:2: loop.txt includes itself`,
+    );
+    await expect(
+      expandArgFiles([`@${path.join(dir, "args.txt")}`], { maxDepth: 1 }),
+    ).rejects.toThrow(
+      `${path.join(dir, "args.txt")}:2: argument files are nested more than 1 deep`,
+    );
+    await expect(expandArgFiles(["@missing.txt"])).rejects.toThrow(
+      "missing.txt: can't be read",
+    );
+  });
+
+  test("is opt-in for commands", async () => {
+    const file = path.join(dir, "sub/more.txt");
+    const cmd = new Command("mycli")
+      .input({ files: i.positional("string").list() })
+      .action(() => {});
+
+    const plain = await testCommand(cmd, [`@${file}`]);
+    expect(plain.input).toEqual({ files: [`@${file}`] });
+
+    cmd.argFiles();
+    const expanded = await testCommand(cmd, [`@${file}`]);
+    expect(expanded.input).toEqual({ files: ["two", "three"] });
+
+    const failed = await testCommand(cmd, ["@nope.txt"]);
+    expect(failed.exitCode).toBe(2);
+    expect(failed.stderr).toContain("nope.txt: can't be read!");
+  });
+});
@@ -1,5 +1,10 @@
-import { describe, test, expect, vi, beforeEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { describe, test, expect, expectTypeOf, vi, beforeEach, afterEach } from "vitest";
 import { Command, error, i } from "@/index";
+import { setConfig } from "@/log";
+import { testCommand } from "@/testing";
 
 describe("Command", () => {
   let root: Command;
@@ -8,6 +13,10 @@ describe("Command", () => {
     root = new Command("root", "Root command");
   });
 
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
   test("creates command with name, description, version", () => {
     const cmd = new Command(["foo", "bar"], "desc", "1.0.0");
     expect(cmd.$names).toEqual(["foo", "bar"]);
@@ -63,6 +72,220 @@ describe("Command", () => {
     expect(input).toEqual({ a: true, b: true });
   });
 
+  test("parse() negates boolean options with --no-<name>", async () => {
+    root.input({
+      color: i.option("boolean", "--color").default(true),
+    });
+    const { input, sources } = await root.parse(["--no-color"]);
+    expect(input.color).toBe(false);
+    expect(sources.color).toBe("cli");
+  });
+
+  test("parse() tells unset booleans apart from false", async () => {
+    root.input({
+      color: i.option("boolean", "--color").optional(),
+    });
+    const { input, sources } = await root.parse([]);
+    expect(input.color).toBeUndefined();
+    expect(sources.color).toBeUndefined();
+  });
+
+  test("parse() does not negate options that aren't negatable", async () => {
+    root.input({
+      color: i.option("boolean", "--color").optional().negatable(false),
+    });
+    expect((await root.parse(["--no-color"])).errors[0]).toBeInstanceOf(
+      error.UnknownOptionError
+    );
+  });
+
+  test("parse() rejects values for other booleans", async () => {
+    root.input({ foo: i.option("boolean", "--foo", "-f").optional() });
+    const { input, errors } = await root.parse(["--foo=false"]);
+    expect(input.foo).toBeUndefined();
+    expect(errors[0].message).toBe("no value expected for option foo: false!");
+    expect((await root.parse(["-f=0"])).errors[0]).toBeInstanceOf(
+      error.InvalidValueError
+    );
+  });
+
+  test("parse() accepts explicit boolean values if enabled", async () => {
+    root.input({
+      a: i.option("boolean", "-a").explicit(),
+      color: i.option("boolean", "--color").explicit(),
+    });
+    const { input } = await root.parse(["--color=no", "-a=0"]);
+    expect(input).toEqual({ a: false, color: false });
+    expect((await root.parse(["--color=maybe", "-a"])).errors[0]).toBeInstanceOf(
+      error.InvalidValueError
+    );
+  });
+
+  test("parse() falls back to environment variables", async () => {
+    vi.stubEnv("ROOT_TEST_TOKEN", "secret");
+    root.input({
+      token: i.option("string", "--token").env("ROOT_TEST_TOKEN"),
+    });
+    const { input, sources } = await root.parse([]);
+    expect(input.token).toBe("secret");
+    expect(sources.token).toBe("env");
+    expect((await root.parse(["--token", "flag"])).input.token).toBe("flag");
+  });
+
+  test("parse() rejects invalid environment values", async () => {
+    vi.stubEnv("X_FLAG", "maybe");
+    vi.stubEnv("X_PORT", "eighty");
+    root.input({
+      flag: i.option("boolean", "--flag").env("X_FLAG"),
+      port: i.option("number", "--port").env("X_PORT")
+    });
+    const { input, errors } = await root.parse([]);
+    expect(input).toEqual({});
+    expect(errors.map((e) => e.message)).toEqual([
+      "expected a boolean for option flag in X_FLAG: maybe!",
+      "expected a number for option port in X_PORT: eighty!"
+    ]);
+    expect((errors[0] as error.InvalidValueError).env).toBe("X_FLAG");
+  });
+
+  test("parse() derives environment variable names from the prefix", async () => {
+    vi.stubEnv("MYCLI_DEPLOY_REGION", "eu");
+    vi.stubEnv("MYCLI_DEPLOY_DRY_RUN", "1");
+    const deploy = new Command("mycli")
+      .envPrefix()
+      .subCommand("deploy")
+      .input({
+        region: i.option("string", "--region"),
+        dryRun: i.option("boolean", "--dry-run"),
+      });
+    expect(deploy.envName("region", deploy.$input.region)).toBe(
+      "MYCLI_DEPLOY_REGION"
+    );
+    const { input } = await deploy.$parent!.parse(["deploy"]);
+    expect(input).toEqual({ region: "eu", dryRun: true });
+  });
+
+  test("parse() enforces conflicting and required options", async () => {
+    root.input({
+      all: i.option("boolean", "--all").optional().conflicts("id"),
+      id: i.option("string", "--id").optional(),
+      key: i.option("string", "--key").optional().requires("cert"),
+      cert: i.option("string", "--cert").optional()
+    });
+    expect((await root.parse(["--all", "--id", "1"])).errors).toEqual([
+      expect.any(error.ConflictingOptionsError)
+    ]);
+    expect((await root.parse(["--key", "k"])).errors).toEqual([
+      expect.any(error.MissingDependencyError)
+    ]);
+    expect((await root.parse(["--key", "k", "--cert", "c"])).errors).toEqual(
+      []
+    );
+  });
+
+  test("parse() lets flags override conflicting environment values", async () => {
+    vi.stubEnv("X_ALL", "true");
+    vi.stubEnv("X_NAME", "a");
+    const cmd = root
+      .input({
+        all: i
+          .option("boolean", "--all")
+          .optional()
+          .env("X_ALL")
+          .conflicts("id"),
+        id: i.option("string", "--id").optional(),
+        name: i.option("string", "--name").default("x").env("X_NAME"),
+        file: i.option("string", "--file").optional()
+      })
+      .exclusive("name", "file");
+    const { input, sources, errors } = await cmd.parse([
+      "--id",
+      "5",
+      "--file",
+      "f"
+    ]);
+    expect(errors).toEqual([]);
+    expect(input).toEqual({ id: "5", name: "x", file: "f" });
+    expect(sources).toEqual({ id: "cli", name: "default", file: "cli" });
+    expect((await cmd.parse([])).input.all).toBe(true);
+    vi.stubEnv("X_ID", "1");
+    cmd.$input.id.env("X_ID");
+    expect((await cmd.parse([])).errors).toEqual([
+      expect.any(error.ConflictingOptionsError)
+    ]);
+  });
+
+  test("parse() applies implied values", async () => {
+    root.input({
+      ci: i.option("boolean", "--ci").optional().implies({ color: false }),
+      color: i.option("boolean", "--color").default(true)
+    });
+    const { input, sources } = await root.parse(["--ci"]);
+    expect(input.color).toBe(false);
+    expect(sources.color).toBe("implied");
+    expect((await root.parse(["--ci", "--color"])).input.color).toBe(true);
+  });
+
+  test("parse() enforces option groups", async () => {
+    const cmd = root
+      .input({
+        all: i.option("boolean", "--all").optional(),
+        id: i.option("string", "--id").optional()
+      })
+      .exactlyOne("all", "id")
+      .action((input) => {
+        if (input.all === undefined) expectTypeOf(input.id).toEqualTypeOf<string>();
+      });
+    expect((await cmd.parse([])).errors[0]).toBeInstanceOf(
+      error.MissingOneOfError
+    );
+    expect((await cmd.parse(["--all", "--id", "1"])).errors[0]).toBeInstanceOf(
+      error.ConflictingOptionsError
+    );
+    expect((await cmd.parse(["--id", "1"])).errors).toEqual([]);
+  });
+
+  test("parse() counts repeated flags", async () => {
+    const cmd = root.input({
+      verbose: i.option("count", "-v", "--verbose"),
+      quiet: i.option("count", "-q")
+    });
+    const { input } = await cmd.parse(["-vvv", "--verbose"]);
+    expect(input).toEqual({ verbose: 4, quiet: 0 });
+    expectTypeOf(input.verbose).toEqualTypeOf<number>();
+  });
+
+  test("parse() collects repeated list options", async () => {
+    root.input({
+      tags: i.option("string", "--tag", "-t").list(),
+      name: i.option("string", "--name")
+    });
+    const { input } = await root.parse([
+      "--tag",
+      "a,b",
+      "-t",
+      "c",
+      "--name",
+      "x",
+      "--name",
+      "y"
+    ]);
+    expect(input).toEqual({ tags: ["a", "b", "c"], name: "y" });
+  });
+
+  test("parse() rejects values that aren't one of the choices", async () => {
+    root.input({
+      env: i.option(i.choices(["dev", "staging", "prod"]), "--env")
+    });
+    expect((await root.parse(["--env", "prod"])).input).toEqual({
+      env: "prod"
+    });
+    const err = (await root.parse(["--env", "stagin"])).errors[0];
+    expect(err).toBeInstanceOf(error.InvalidChoiceError);
+    expect((err as error.InvalidChoiceError).suggestions).toEqual(["staging"]);
+    expect(err.message).toContain("dev, staging, prod");
+  });
+
   test("parse() parses positional args", async () => {
     root.input({
       file: i.positional("string").required(),
@@ -125,6 +348,44 @@ describe("Command", () => {
     expect(input).toEqual({});
   });
 
+  test("parse() treats arguments after -- as positionals", async () => {
+    root.input({
+      files: i.positional("string").list(),
+      v: i.option("boolean", "-v").optional(),
+    });
+    const { input, errors } = await root.parse(["--", "-v", "--inspect"]);
+    expect(errors).toEqual([]);
+    expect(input.files).toEqual(["-v", "--inspect"]);
+    expect(input.v).toBeUndefined();
+  });
+
+  test("parse() forwards arguments after -- if passthrough is enabled", async () => {
+    root.passthrough();
+    root.input({
+      v: i.option("boolean", "-v"),
+    });
+    const { input, errors, passthrough } = await root.parse([
+      "-v",
+      "--",
+      "node",
+      "--inspect",
+      "app.js",
+    ]);
+    expect(errors).toEqual([]);
+    expect(input.v).toBe(true);
+    expect(passthrough).toEqual(["node", "--inspect", "app.js"]);
+  });
+
+  test("run() passes forwarded arguments to the action", async () => {
+    const fn = vi.fn();
+    root.passthrough().action(fn);
+    await root.run(["--", "-x"]);
+    expect(fn).toHaveBeenCalledWith(
+      {},
+      expect.objectContaining({ passthrough: ["-x"] })
+    );
+  });
+
   test("run() executes help", async () => {
     const fn = vi.fn();
     root.error(fn);
@@ -140,7 +401,10 @@ describe("Command", () => {
     });
     root.action(fn);
     await root.run(["Alice"]);
-    expect(fn).toHaveBeenCalledWith({ name: "Alice" });
+    expect(fn).toHaveBeenCalledWith(
+      { name: "Alice" },
+      expect.objectContaining({ argv: ["Alice"], passthrough: [] })
+    );
   });
 
   test("run() prints help screen if no action is set", async () => {
@@ -248,7 +512,10 @@ describe("Nested subcommands", () => {
     sub.action(fn);
 
     await root.run(["sub", "Alice"]);
-    expect(fn).toHaveBeenCalledWith({ name: "Alice" });
+    expect(fn).toHaveBeenCalledWith(
+      { name: "Alice" },
+      expect.objectContaining({ command: sub })
+    );
   });
 
   test("run() prints help screen if subcommand has no action", async () => {
@@ -258,6 +525,52 @@ describe("Nested subcommands", () => {
     await root.run(["sub"]);
     expect(helpSpy).toHaveBeenCalled();
   });
+  test("parse() suggests close subcommands", async () => {
+    root.subCommand("deploy");
+    const err = (await root.parse(["depoy"])).errors[0];
+    expect(err).toBeInstanceOf(error.UnknownCommandError);
+    expect((err as error.UnknownCommandError).suggestions).toEqual([
+      "deploy"
+    ]);
+  });
+
+  test("parse() suggests close options", async () => {
+    const sub = root.subCommand("deploy");
+    sub.input({
+      region: i.option("string", "--region").optional()
+    });
+    const err = (await root.parse(["deploy", "--regoin", "eu"])).errors[0];
+    expect(err).toBeInstanceOf(error.UnknownOptionError);
+    expect((err as error.UnknownOptionError).suggestions).toEqual([
+      "--region"
+    ]);
+  });
+
+  test("parse() reports subcommand typos on commands with positionals if enabled", async () => {
+    root.subCommand("deploy");
+    root.input({
+      file: i.positional("string").optional()
+    });
+    expect((await root.parse(["depoy"])).input.file).toBe("depoy");
+
+    root.suggestions({ subcommandTypos: true, threshold: 1 });
+    expect((await root.parse(["depoy"])).errors[0]).toBeInstanceOf(
+      error.UnknownCommandError
+    );
+    expect((await root.parse(["dpoy"])).input.file).toBe("dpoy");
+  });
+
+  test("run() prints suggestions", async () => {
+    root.subCommand("deploy");
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await root.run(["depoy"]);
+    expect(errorSpy.mock.calls.flat().join("\n")).toMatch(
+      /did you mean .*deploy/
+    );
+    errorSpy.mockRestore();
+    logSpy.mockRestore();
+  });
 });
 
 describe("Middlewares", () => {
@@ -271,7 +584,7 @@ describe("Middlewares", () => {
 
   test("runs a single middleware before and after the action", async () => {
     root
-      .use(async (input, next) => {
+      .use(async (input, _ctx, next) => {
         logs.push("before");
         await next();
         logs.push("after");
@@ -286,12 +599,12 @@ describe("Middlewares", () => {
 
   test("runs multiple middlewares in order", async () => {
     root
-      .use(async (input, next) => {
+      .use(async (input, _ctx, next) => {
         logs.push("mw1-start");
         await next();
         logs.push("mw1-end");
       })
-      .use(async (input, next) => {
+      .use(async (input, _ctx, next) => {
         logs.push("mw2-start");
         await next();
         logs.push("mw2-end");
@@ -312,13 +625,13 @@ describe("Middlewares", () => {
 
   test("propagates middlewares from parent to child", async () => {
     const sub = root.subCommand("sub");
-    root.use(async (input, next) => {
+    root.use(async (input, _ctx, next) => {
       logs.push("root-start");
       await next();
       logs.push("root-end");
     });
     sub
-      .use(async (input, next) => {
+      .use(async (input, _ctx, next) => {
         logs.push("sub-start");
         await next();
         logs.push("sub-end");
@@ -344,7 +657,7 @@ describe("Middlewares", () => {
     const received: any[] = [];
 
     root
-      .use(async (input, next) => {
+      .use(async (input, _ctx, next) => {
         received.push({ mw: input.name });
         await next();
       })
@@ -370,9 +683,56 @@ describe("Middlewares", () => {
     expect(action).not.toHaveBeenCalled();
   });
 
+  test("middleware can extend the context", async () => {
+    const received: unknown[] = [];
+    const cmd = root
+      .use(async (_input, _ctx, next) => next({ db: { name: "main" } }))
+      .use(async (_input, ctx, next) => next({ user: `${ctx.db.name}-user` }));
+    cmd.action((_input, ctx) => {
+      expectTypeOf(ctx.db).toEqualTypeOf<{ name: string }>();
+      expectTypeOf(ctx.user).toEqualTypeOf<string>();
+      received.push(ctx.db.name, ctx.user, ctx.command, ctx.signal.aborted);
+    });
+
+    await cmd.run([]);
+    expect(received).toEqual(["main", "main-user", root, false]);
+  });
+
+  test("run() aborts on the first interrupt and exits on the second", async () => {
+    const exit = vi
+      .spyOn(process, "exit")
+      .mockImplementation((() => {}) as any);
+    const listeners = process.listenerCount("SIGINT");
+    const aborted: boolean[] = [];
+    root.action((_input, { signal }) => {
+      process.emit("SIGINT", "SIGINT");
+      aborted.push(signal.aborted);
+      expect(exit).not.toHaveBeenCalled();
+      process.emit("SIGINT", "SIGINT");
+    });
+
+    await root.run([]);
+    expect(aborted).toEqual([true]);
+    expect(exit).toHaveBeenCalledWith(130);
+    expect(process.listenerCount("SIGINT")).toBe(listeners);
+    exit.mockRestore();
+  });
+
+  test("next() resolves to the extension", async () => {
+    let result: unknown;
+    root
+      .use(async (_input, _ctx, next) => {
+        result = await next({ a: 1 });
+      })
+      .action(() => {});
+
+    await root.run([]);
+    expect(result).toEqual({ ext: { a: 1 } });
+  });
+
   test("throws if middleware calls next() twice", async () => {
     root
-      .use(async (input, next) => {
+      .use(async (input, _ctx, next) => {
         await next();
         await expect(next()).rejects.toThrow(/next\(\) called multiple times/);
       })
@@ -381,3 +741,594 @@ describe("Middlewares", () => {
     await root.run([]);
   });
 });
+
+describe("Deprecations", () => {
+  let root: Command;
+
+  beforeEach(() => {
+    root = new Command("root", "Root command");
+  });
+
+  test("hidden commands and options still parse", async () => {
+    const sub = root.subCommand("internal").hidden();
+    const cmd = sub.input({
+      debug: i.option("boolean", "--debug").hidden()
+    });
+    const result = await cmd.parse(["--debug"]);
+    expect(result.input.debug).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(sub.$hidden).toBe(true);
+  });
+
+  test("reports deprecated option names", async () => {
+    const cmd = root.input({
+      color: i.option("boolean", "--color").deprecatedAlias("--colour", "use --color")
+    });
+    const result = await cmd.parse(["--colour"]);
+    expect(result.input.color).toBe(true);
+    expect(result.deprecations).toEqual(["--colour is deprecated: use --color"]);
+
+    const current = await cmd.parse(["--color"]);
+    expect(current.deprecations).toEqual([]);
+  });
+
+  test("forwards deprecated options to their replacement", async () => {
+    const cmd = root.input({
+      output: i.option("string", "--output").optional(),
+      out: i.option("string", "--out").deprecated("use --output", "output")
+    });
+    const result = await cmd.parse(["--out", "dist"]);
+    expect(result.input.output).toBe("dist");
+    expect(result.sources.output).toBe("cli");
+    expect(result.deprecations).toEqual(["--out is deprecated: use --output"]);
+  });
+
+  test("reports deprecated positionals that receive a value", async () => {
+    const cmd = root.input({
+      target: i.positional("string").optional().deprecated("use --target")
+    });
+    expect((await cmd.parse([])).deprecations).toEqual([]);
+    expect((await cmd.parse(["prod"])).deprecations).toEqual([
+      "<target> is deprecated: use --target"
+    ]);
+  });
+
+  test("forwards deprecated commands to their replacement", async () => {
+    const action = vi.fn();
+    root.subCommand("deploy").action(action);
+    root.subCommand("ship").deprecated("use deploy", "deploy");
+
+    const result = await root.parse(["ship"]);
+    expect(result.command.$names[0]).toBe("deploy");
+    expect(result.deprecations).toEqual(["root ship is deprecated: use deploy"]);
+  });
+
+  test("reports deprecated command aliases", async () => {
+    root.subCommand("remove").deprecatedAlias("rm", "use remove");
+    const result = await root.parse(["rm"]);
+    expect(result.command.$names[0]).toBe("remove");
+    expect(result.deprecations).toEqual(["root rm is deprecated: use remove"]);
+  });
+
+  test("does not suggest hidden or deprecated commands", async () => {
+    root.subCommand("deploy");
+    root.subCommand("debug").hidden();
+    root.subCommand("destroy").deprecatedAlias("delete", "use destroy");
+    const result = await root.parse(["deplo"]);
+    const err = result.errors[0] as error.UnknownCommandError;
+    expect(err.suggestions).toEqual(["deploy"]);
+  });
+
+  test("run warns once per deprecation", async () => {
+    const chunks: string[] = [];
+    await setConfig({
+      stdout: new WritableStream({
+        write(chunk) {
+          chunks.push(chunk);
+        }
+      }),
+      stderr: new WritableStream(),
+      stdin: new ReadableStream(),
+      format: "text"
+    });
+    root.subCommand("old").deprecated("use new").action(() => {});
+
+    await root.run(["old"]);
+    await root.run(["old"]);
+    expect(chunks.filter((c) => c.includes("root old is deprecated"))).toHaveLength(1);
+  });
+});
+
+describe("Lazy subcommands", () => {
+  let root: Command;
+
+  beforeEach(() => {
+    root = new Command("root", "Root command");
+  });
+
+  test("loads only the selected command", async () => {
+    const deploy = vi.fn(async () => ({
+      default: new Command("deploy").input({
+        region: i.option("string", "--region")
+      })
+    }));
+    const destroy = vi.fn(async () => new Command("destroy"));
+    root
+      .lazySubCommand("deploy", deploy, "Deploys the app.")
+      .lazySubCommand("destroy", destroy, "Destroys the app.");
+
+    const result = await root.parse(["deploy", "--region", "eu"]);
+    expect(deploy).toHaveBeenCalledOnce();
+    expect(destroy).not.toHaveBeenCalled();
+    expect(result.errors).toEqual([]);
+    expect(result.input).toEqual({ region: "eu" });
+    expect(result.command.$parent).toBe(root);
+    expect(result.command.$description).toBe("Deploys the app.");
+  });
+
+  test("keeps metadata for help without loading", () => {
+    const loader = vi.fn(async () => new Command("deploy"));
+    root.lazySubCommand(["deploy", "d"], loader, "Deploys the app.");
+    const child = root.$children.get("d")!.command;
+    expect(child.$names).toEqual(["deploy", "d"]);
+    expect(child.$description).toBe("Deploys the app.");
+    expect(child.$loader).toBe(loader);
+    expect(loader).not.toHaveBeenCalled();
+  });
+
+  test("keeps hidden and deprecated state of the placeholder", async () => {
+    root
+      .lazySubCommand("ship", async () => new Command("ship"))
+      .$children.get("ship")!
+      .command.hidden()
+      .deprecated("use deploy")
+      .deprecatedAlias("post", "use ship");
+
+    const { command } = await root.parse(["ship"]);
+    expect(command.$hidden).toBe(true);
+    expect(command.$deprecated).toEqual({ message: "use deploy" });
+    expect(command.$deprecatedAliases.get("post")).toEqual({
+      message: "use ship"
+    });
+    expect(root.$children.get("post")!.command).toBe(command);
+  });
+
+  test("accepts builders as the loaded module", async () => {
+    const action = vi.fn();
+    root.lazySubCommand("deploy", async () => ({
+      default: (c: Command) => c.action(action)
+    }));
+
+    await root.run(["deploy"]);
+    expect(action).toHaveBeenCalledOnce();
+  });
+
+  test("runs parent middlewares", async () => {
+    const calls: string[] = [];
+    root
+      .use(async (_input, _ctx, next) => {
+        calls.push("mw");
+        await next();
+      })
+      .lazySubCommand("deploy", async () =>
+        new Command("deploy").action(() => {
+          calls.push("action");
+        })
+      );
+
+    await root.run(["deploy"]);
+    expect(calls).toEqual(["mw", "action"]);
+  });
+
+  test("subCommand() never treats builders as loaders", () => {
+    const action = vi.fn();
+    // default parameters don't count towards a function's length
+    root.subCommand("deploy", (c = new Command("unused")) => c.action(action));
+    const child = root.$children.get("deploy")!.command;
+    expect(child.$loader).toBeUndefined();
+    expect(child.$fn).toBe(action);
+  });
+
+  test("loadAll() loads every lazy command", async () => {
+    root.lazySubCommand("cloud", async () =>
+      new Command("cloud").lazySubCommand(
+        "deploy",
+        async () => new Command("deploy")
+      )
+    );
+
+    await root.loadAll();
+    const cloud = root.$children.get("cloud")!.command;
+    expect(cloud.$loader).toBeUndefined();
+    expect(cloud.$children.get("deploy")!.command.$loader).toBeUndefined();
+    expect(cloud.$children.get("deploy")!.command.$parent).toBe(cloud);
+  });
+});
+
+describe("Hooks", () => {
+  let root: Command;
+  let calls: string[];
+
+  beforeEach(() => {
+    root = new Command("root", "Root command");
+    calls = [];
+    for (const name of [
+      "preParse",
+      "preSubcommand",
+      "preAction",
+      "postAction",
+      "onFinally"
+    ] as const) {
+      root.hook(name, (ctx) => {
+        calls.push(`${name}:${ctx.command.$names[0]}`);
+      });
+    }
+  });
+
+  test("fire in order around the action", async () => {
+    const sub = root.subCommand("deploy");
+    sub
+      .use(async (_input, _ctx, next) => {
+        calls.push("middleware");
+        await next();
+      })
+      .action(() => {
+        calls.push("action");
+      });
+
+    await root.run(["deploy"]);
+    expect(calls).toEqual([
+      "preParse:root",
+      "preSubcommand:deploy",
+      "preAction:deploy",
+      "middleware",
+      "action",
+      "postAction:deploy",
+      "onFinally:deploy"
+    ]);
+  });
+
+  test("parent hooks run before subcommand hooks", async () => {
+    root
+      .subCommand("deploy")
+      .hook("preAction", () => {
+        calls.push("child");
+      })
+      .action(() => {});
+
+    await root.run(["deploy"]);
+    expect(calls.indexOf("preAction:deploy")).toBe(
+      calls.indexOf("child") - 1
+    );
+  });
+
+  test("onFinally runs for help and receives errors", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    const errorLog = vi.spyOn(console, "error").mockImplementation(() => {});
+    let errors: Error[] = [];
+    root.hook("onFinally", (ctx) => {
+      errors = ctx.errors;
+    });
+
+    await root.run(["--help"]);
+    expect(calls).toEqual(["preParse:root", "onFinally:root"]);
+
+    calls = [];
+    root.action(() => {
+      throw new Error("boom");
+    });
+    expect(await root.run([])).toBe(1);
+    expect(calls).toEqual(["preParse:root", "preAction:root", "onFinally:root"]);
+    expect(errors.map((e) => e.message)).toEqual(["boom"]);
+
+    log.mockRestore();
+    errorLog.mockRestore();
+  });
+
+  test("that throw resolve to an exit code", async () => {
+    const errorLog = vi.spyOn(console, "error").mockImplementation(() => {});
+    for (const name of [
+      "preParse",
+      "preSubcommand",
+      "preAction",
+      "postAction"
+    ] as const) {
+      const cmd = new Command("root").hook(name, () => {
+        throw new Error(`${name} failed`);
+      });
+      let errors: Error[] = [];
+      cmd.hook("onFinally", (ctx) => {
+        errors = ctx.errors;
+      });
+      cmd.subCommand("deploy").action(() => {});
+
+      expect(await cmd.run(["deploy"])).toBe(1);
+      expect(errors.map((e) => e.message)).toEqual([`${name} failed`]);
+      expect(errorLog).toHaveBeenCalledWith(new Error(`${name} failed`));
+    }
+    errorLog.mockRestore();
+  });
+
+  test("onFinally that throws keeps the exit code", async () => {
+    const errorLog = vi.spyOn(console, "error").mockImplementation(() => {});
+    root.hook("onFinally", () => {
+      throw new Error("cleanup failed");
+    });
+    root.action(() => {
+      throw new error.ExitError(4);
+    });
+
+    expect(await root.run([])).toBe(4);
+    expect(errorLog).toHaveBeenCalledWith(new Error("cleanup failed"));
+    errorLog.mockRestore();
+  });
+
+  test("receive the parsed input", async () => {
+    const cmd = root.input({ name: i.positional("string") });
+    let input: Record<string, unknown> = {};
+    cmd.hook("preAction", (ctx) => {
+      input = ctx.input;
+    });
+    cmd.action(() => {});
+
+    await cmd.run(["Alice"]);
+    expect(input).toEqual({ name: "Alice" });
+  });
+});
+
+describe("Exit codes", () => {
+  let root: Command;
+
+  beforeEach(() => {
+    root = new Command("root", "Root command", "1.0.0");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test("are 0 for help, version and successful actions", async () => {
+    root.action(() => {});
+    expect(await root.run(["--help"])).toBe(0);
+    expect(await root.run(["--version"])).toBe(0);
+    expect(await root.run([])).toBe(0);
+  });
+
+  test("are 2 for usage errors", async () => {
+    root.action(() => {});
+    expect(await root.run(["--nope"])).toBe(2);
+    expect(await root.run(["extra"])).toBe(2);
+  });
+
+  test("are 2 for a missing subcommand, unless help was asked for", async () => {
+    const group = new Command("root").subCommand("deploy", (c) =>
+      c.action(() => {})
+    );
+    const spy = vi.spyOn(group, "handleErrors");
+    expect(await group.run([])).toBe(2);
+    expect(spy.mock.calls[0][0]).toEqual([
+      expect.any(error.MissingCommandError)
+    ]);
+    expect(await group.run(["--help"])).toBe(0);
+    expect(await group.run(["deploy"])).toBe(0);
+  });
+
+  test("are 2 for values a schema rejects", async () => {
+    const email = {
+      "~standard": {
+        version: 1 as const,
+        vendor: "test",
+        validate: (value: unknown) =>
+          String(value).includes("@")
+            ? { value: String(value) }
+            : { issues: [{ message: "not an email" }] }
+      }
+    };
+    root.input({ to: i.option(email, "--to") }).action(() => {});
+    const result = await testCommand(root, ["--to", "bad"]);
+    expect(result.exitCode).toBe(2);
+    expect(result.errors[0]).toBeInstanceOf(error.InvalidValueError);
+    expect(result.stderr).toContain("not an email for option to: bad!");
+  });
+
+  test("are 1 for errors thrown by actions", async () => {
+    root.action(() => {
+      throw new Error("boom");
+    });
+    expect(await root.run([])).toBe(1);
+    expect(console.error).toHaveBeenCalledWith(new Error("boom"));
+  });
+
+  test("can be returned or thrown by actions", async () => {
+    root.subCommand("returns").action(() => new error.ExitError(3));
+    root.subCommand("throws").action(() => {
+      throw new error.ExitError(4, "failed");
+    });
+    expect(await root.run(["returns"])).toBe(3);
+    expect(await root.run(["throws"])).toBe(4);
+    expect(console.error).toHaveBeenCalledWith("failed");
+  });
+
+  test("ignore other values returned by actions", async () => {
+    const list: string[] = [];
+    root.action(() => list.push("a"));
+    expect(await root.run([])).toBe(0);
+  });
+
+  test("are 1 for errors thrown while parsing", async () => {
+    root.lazySubCommand("deploy", async () => {
+      throw new Error("Cannot find module");
+    });
+    expect(await root.run(["deploy"])).toBe(1);
+    expect(console.error).toHaveBeenCalledWith(new Error("Cannot find module"));
+  });
+
+  test("can be overridden per command and error class", async () => {
+    class CustomError extends error.ConvokerError {
+      exitCode = 64;
+    }
+    root.subCommand("custom").action((_input, ctx) => {
+      throw new CustomError("custom", ctx.command);
+    });
+    root.exitCode((e) => (e instanceof error.UnknownOptionError ? 3 : undefined));
+    root.action(() => {});
+
+    expect(await root.run(["custom"])).toBe(64);
+    expect(await root.run(["--nope"])).toBe(3);
+    expect(await root.run(["extra"])).toBe(2);
+  });
+});
+
+describe("Prompting", () => {
+  function deploy() {
+    return new Command("deploy")
+      .input({
+        target: i.positional("string").description("Target?"),
+        env: i.option(i.choices(["dev", "prod"]), "--env"),
+        token: i.option("string", "--token").secret(),
+        force: i.option("boolean", "--force").required(),
+        replicas: i
+          .option("number", "--replicas")
+          .prompt({ message: "How many?" })
+      })
+      .action(() => {});
+  }
+
+  test("asks for missing required input on a terminal", async () => {
+    const result = await testCommand(deploy(), ["--replicas", "2"], {
+      answers: ["web", "down", "enter", "s3cret", "y"]
+    });
+    expect(result.exitCode).toBe(0);
+    expect(result.input).toEqual({
+      target: "web",
+      env: "prod",
+      token: "s3cret",
+      force: true,
+      replicas: 2
+    });
+    expect(result.stdout).toContain("Target? web\n");
+    expect(result.stdout).not.toContain("s3cret");
+  });
+
+  test("converts answers like command line values", async () => {
+    const cmd = new Command("scale")
+      .input({
+        port: i.option(
+          {
+            "~standard": {
+              version: 1,
+              vendor: "test",
+              validate: (value: unknown) =>
+                /^\d+$/.test(String(value))
+                  ? { value: Number(value) }
+                  : { issues: [{ message: "not a port" }] }
+            }
+          },
+          "--port"
+        )
+      })
+      .action(() => {});
+    const result = await testCommand(cmd, [], { answers: ["http", "8080"] });
+    expect(result.input).toEqual({ port: 8080 });
+    expect(result.stderr).toBe("not a port\n");
+  });
+
+  test("keeps the errors without a terminal or with --no-input", async () => {
+    const plain = await testCommand(deploy(), []);
+    expect(plain.exitCode).toBe(2);
+    expect(plain.errors.map((e) => e.constructor)).toEqual([
+      error.MissingRequiredArgumentError,
+      error.MissingRequiredOptionError,
+      error.MissingRequiredOptionError,
+      error.MissingRequiredOptionError,
+      error.MissingRequiredOptionError
+    ]);
+
+    const noInput = await testCommand(deploy(), ["--no-input"], {
+      answers: ["web"]
+    });
+    expect(noInput.exitCode).toBe(2);
+    expect(noInput.errors).toHaveLength(5);
+  });
+
+  test("can be turned off per entry", async () => {
+    const cmd = new Command("greet")
+      .input({ name: i.option("string", "--name").prompt(false) })
+      .action(() => {});
+    const result = await testCommand(cmd, [], { answers: [] });
+    expect(result.errors[0]).toBeInstanceOf(error.MissingRequiredOptionError);
+  });
+});
+
+describe("Values from stdin and files", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "convoker-"));
+    await fs.writeFile(path.join(dir, "payload.json"), '{"replicas":3}');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  function apply() {
+    return new Command("apply")
+      .input({
+        data: i.option("string", "--data", "-d").fromStdin().fromFile(),
+        count: i.option("number", "--count").fromFile().optional(),
+        files: i.positional("string").list().fromStdin().optional()
+      })
+      .action(() => {});
+  }
+
+  test("reads stdin for -", async () => {
+    const result = await testCommand(apply(), ["-d", "-"], {
+      stdin: '{"replicas":2}'
+    });
+    expect(result.input.data).toBe('{"replicas":2}');
+
+    const positional = await testCommand(apply(), ["-d", "x", "a", "-"], {
+      stdin: "b"
+    });
+    expect(positional.input.files).toEqual(["a", "b"]);
+  });
+
+  test("reads files for @path and converts them", async () => {
+    await fs.writeFile(path.join(dir, "count"), "12");
+    const file = path.join(dir, "payload.json");
+    const result = await testCommand(apply(), [
+      "--data",
+      `@${file}`,
+      "--count",
+      `@${path.join(dir, "count")}`
+    ]);
+    expect(result.input).toMatchObject({ data: '{"replicas":3}', count: 12 });
+
+    const escaped = await testCommand(apply(), ["--data", "@@handle"]);
+    expect(escaped.input.data).toBe("@handle");
+  });
+
+  test("is opt-in", async () => {
+    const cmd = new Command("echo")
+      .input({ text: i.positional("string") })
+      .action(() => {});
+    const result = await testCommand(cmd, ["@notes.txt"], { stdin: "hi" });
+    expect(result.input.text).toBe("@notes.txt");
+  });
+
+  test("reports files that can't be read and stdin read twice", async () => {
+    const missing = await testCommand(apply(), ["--data", "@nope.txt"]);
+    expect(missing.exitCode).toBe(2);
+    expect(missing.errors[0]).toBeInstanceOf(error.ValueFileError);
+
+    const twice = await testCommand(apply(), ["--data", "-", "-"], {
+      stdin: "once"
+    });
+    expect(twice.errors.map((e) => e.message)).toEqual([
+      "only one value can be read from stdin: data, files!"
+    ]);
+  });
+});
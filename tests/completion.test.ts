@@ -0,0 +1,143 @@
+import { describe, expect, test, vi } from "vitest";
+import { Command, i } from "@/index";
+import { complete, formatCompletion, generateCompletion } from "@/completion";
+
+function program() {
+  const root = new Command("mycli", "My CLI", "1.0.0");
+  root.subCommand(["deploy", "d"], "Deploys the app.").input({
+    region: i.option("string", "--region", "-r").description("The region."),
+    dry: i.option("boolean", "--dry"),
+  });
+  return root;
+}
+
+describe("generateCompletion()", () => {
+  test("bash covers subcommands, aliases and options", () => {
+    const script = generateCompletion(program(), "bash");
+    expect(script).toContain("complete -o default -F _mycli_completions mycli");
+    expect(script).toContain(
+      "'mycli:deploy'|'mycli:d') cmdpath='mycli deploy'",
+    );
+    expect(script).toContain("options='--region -r --dry --no-dry --help -h'");
+    expect(script).toContain("valued='--region -r'");
+  });
+
+  test("zsh includes descriptions", () => {
+    const script = generateCompletion(program(), "zsh");
+    expect(script).toContain("#compdef mycli");
+    expect(script).toContain("'deploy:Deploys the app.'");
+    expect(script).toContain("'--region:The region.'");
+  });
+
+  test("fish marks options that take values", () => {
+    const script = generateCompletion(program(), "fish");
+    expect(script).toContain("-l region -s r -r -F -d 'The region.'");
+  });
+
+  test("powershell registers a native completer", () => {
+    const script = generateCompletion(program(), "powershell");
+    expect(script).toContain(
+      "Register-ArgumentCompleter -Native -CommandName 'mycli'",
+    );
+    expect(script).toContain("Name = '--region'; Description = 'The region.'");
+  });
+});
+
+describe("Command.completion()", () => {
+  test("prints the script for a shell", async () => {
+    const root = program().completion();
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    await root.run(["completion", "fish"]);
+    expect(log).toHaveBeenCalledWith(generateCompletion(root, "fish"));
+    log.mockRestore();
+  });
+
+  test("loads lazy commands first", async () => {
+    const root = new Command("mycli")
+      .lazySubCommand("deploy", async () =>
+        new Command("deploy").input({
+          region: i.option("string", "--region"),
+        }),
+      )
+      .completion();
+    // unloaded commands can only be completed at runtime
+    expect(generateCompletion(root, "bash")).toContain("__complete");
+
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    await root.run(["completion", "bash"]);
+    const script = log.mock.calls[0][0] as string;
+    expect(script).not.toContain("__complete");
+    expect(script).toContain("options='--region --help -h'");
+    log.mockRestore();
+  });
+});
+
+describe("complete()", () => {
+  function dynamic() {
+    const root = new Command("mycli", "My CLI");
+    root.subCommand("deploy", "Deploys the app.").input({
+      region: i
+        .option("string", "--region", "-r")
+        .complete(() => [{ value: "eu", description: "Europe" }, "us"]),
+      verbose: i.option("boolean", "--verbose", "-v"),
+      force: i.option("boolean", "--force", "-f"),
+      target: i
+        .positional("string")
+        .complete((partial, input) => [`${partial}-${input.region}`]),
+    });
+    root.subCommand("dev", "Starts the dev server.");
+    return root;
+  }
+
+  test("completes subcommands", async () => {
+    const { candidates } = await complete(dynamic(), ["de"]);
+    expect(candidates).toEqual([
+      { value: "deploy", description: "Deploys the app." },
+      { value: "dev", description: "Starts the dev server." },
+    ]);
+  });
+
+  test("completes option values", async () => {
+    const cmd = dynamic();
+    expect(
+      (await complete(cmd, ["deploy", "--region", ""])).candidates,
+    ).toEqual([{ value: "eu", description: "Europe" }, { value: "us" }]);
+    expect((await complete(cmd, ["deploy", "--region=e"])).candidates).toEqual([
+      { value: "--region=eu", description: "Europe" },
+    ]);
+  });
+
+  test("extends short flag clusters", async () => {
+    const { candidates } = await complete(dynamic(), ["deploy", "-v"]);
+    expect(candidates.map((c) => c.value)).toEqual(["-v", "-vf"]);
+  });
+
+  test("passes the parsed input to positional callbacks", async () => {
+    const { candidates } = await complete(dynamic(), [
+      "deploy",
+      "-r",
+      "eu",
+      "a",
+    ]);
+    expect(candidates).toEqual([{ value: "a-eu" }]);
+  });
+
+  test("falls back to files", async () => {
+    const result = await complete(program(), ["deploy", "--region", ""]);
+    expect(result).toEqual({ candidates: [], files: true });
+    expect(formatCompletion(result)).toBe(":files");
+  });
+
+  test("run() answers the __complete protocol", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    await dynamic().run(["__complete", "deploy", "--region", ""]);
+    expect(log).toHaveBeenCalledWith("eu\tEurope\nus\n:default");
+    log.mockRestore();
+  });
+
+  test("generates scripts that call back into the program", () => {
+    const script = generateCompletion(dynamic(), "bash");
+    expect(script).toContain('"${words[0]}" __complete');
+    expect(generateCompletion(program(), "bash")).not.toContain("__complete");
+  });
+});
@@ -0,0 +1,241 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { Command, error, i } from "@/index";
+import { ConfigSyntaxError, parseConfig, scopeConfig } from "@/config";
+
+describe("parseConfig()", () => {
+  test("parses JSONC", () => {
+    const text = `{
+      // a comment
+      "region": "eu", /* another */
+      "tags": ["a", "b",],
+      "nested": { "a": 1, /* , */ },
+    }`;
+    expect(parseConfig(text, "jsonc")).toEqual({
+      region: "eu",
+      tags: ["a", "b"],
+      nested: { a: 1 },
+    });
+  });
+
+  test("leaves commas in JSONC strings alone", () => {
+    const text = '{ "a": ",]", "b": ", }", "c": "\\\\", }';
+    expect(parseConfig(text, "jsonc")).toEqual({ a: ",]", b: ", }", c: "\\" });
+  });
+
+  test("parses TOML", () => {
+    const text = `
+region = "eu" # comment
+port = 8_080
+verbose = true
+tags = [
+  "a",
+  'b',
+]
+
+[deploy]
+region = "us"
+inline = { a.b = 1 }
+
+[[servers]]
+name = "one"
+`;
+    expect(parseConfig(text, "toml")).toEqual({
+      region: "eu",
+      port: 8080,
+      verbose: true,
+      tags: ["a", "b"],
+      deploy: { region: "us", inline: { a: { b: 1 } } },
+      servers: [{ name: "one" }],
+    });
+  });
+
+  test("parses YAML", () => {
+    const text = `
+region: eu # comment
+port: 8080
+verbose: true
+tags:
+  - a
+  - "b"
+flow: [1, two]
+deploy:
+  region: 'us'
+  servers:
+    - name: one
+      port: 1
+notes: |
+  line one
+  line two
+`;
+    expect(parseConfig(text, "yaml")).toEqual({
+      region: "eu",
+      port: 8080,
+      verbose: true,
+      tags: ["a", "b"],
+      flow: [1, "two"],
+      deploy: { region: "us", servers: [{ name: "one", port: 1 }] },
+      notes: "line one\nline two\n",
+    });
+  });
+
+  test("parses INI", () => {
+    const text = `
+; comment
+region = eu
+[deploy]
+region: "us"
+`;
+    expect(parseConfig(text, "ini")).toEqual({
+      region: "eu",
+      deploy: { region: "us" },
+    });
+  });
+
+  test("reports the line of syntax errors", () => {
+    expect(() => parseConfig('a = "b\n', "toml")).toThrow(ConfigSyntaxError);
+    expect(() => parseConfig("a: 1\n  b: 2\n", "yaml")).toThrow(/line 2/);
+  });
+});
+
+describe("scopeConfig()", () => {
+  test("merges sections named after subcommands", () => {
+    const data = { region: "eu", port: 1, deploy: { region: "us" } };
+    expect(scopeConfig(data, ["deploy"])).toMatchObject({
+      region: "us",
+      port: 1,
+    });
+  });
+});
+
+describe("Command.config()", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "convoker-"));
+    vi.stubEnv("XDG_CONFIG_HOME", path.join(dir, "home"));
+    vi.stubEnv("XDG_CONFIG_DIRS", path.join(dir, "etc"));
+    vi.spyOn(process, "cwd").mockReturnValue(
+      path.join(dir, "project", "nested"),
+    );
+    await fs.mkdir(path.join(dir, "project", "nested"), { recursive: true });
+    await fs.mkdir(path.join(dir, "home", "mycli"), { recursive: true });
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  function program() {
+    return new Command("mycli").config().input({
+      region: i.option("string", "--region").optional(),
+      port: i.option("number", "--port").default(80),
+      verbose: i.option("boolean", "--verbose").optional(),
+    });
+  }
+
+  test("layers project configuration over user configuration", async () => {
+    await fs.writeFile(
+      path.join(dir, "home", "mycli", "config.toml"),
+      'region = "user"\nverbose = true\n',
+    );
+    await fs.writeFile(
+      path.join(dir, "project", ".mycli.json"),
+      JSON.stringify({ region: "project" }),
+    );
+
+    const { input, sources } = await program().parse([]);
+    expect(input).toEqual({ region: "project", port: 80, verbose: true });
+    expect(sources).toEqual({
+      region: "config",
+      port: "default",
+      verbose: "config",
+    });
+  });
+
+  test("prefers the command line and environment", async () => {
+    await fs.writeFile(
+      path.join(dir, "project", ".mycli.yaml"),
+      "region: project\nport: 1\n",
+    );
+    vi.stubEnv("MYCLI_PORT", "2");
+
+    const cmd = program().envPrefix();
+    const { input } = await cmd.parse(["--region", "cli"]);
+    expect(input).toMatchObject({ region: "cli", port: 2 });
+  });
+
+  test("reads an explicit --config path", async () => {
+    const file = path.join(dir, "custom.ini");
+    await fs.writeFile(file, "port = 3\n");
+
+    const { input } = await program().parse(["--config", file]);
+    expect(input.port).toBe(3);
+  });
+
+  test("points at the file and key of invalid values", async () => {
+    const file = path.join(dir, "project", ".mycli.json");
+    await fs.writeFile(file, JSON.stringify({ port: true }));
+
+    const { errors } = await program().parse([]);
+    expect(errors[0]).toBeInstanceOf(error.ConfigValueError);
+    expect((errors[0] as error.ConfigValueError).file).toBe(
+      file.replace(/\\/g, "/"),
+    );
+    expect((errors[0] as error.ConfigValueError).key).toBe("port");
+  });
+
+  test("checks string values against the kind", async () => {
+    const file = path.join(dir, "custom.ini");
+    await fs.writeFile(file, "port = abc\nverbose = maybe\n");
+
+    const { errors } = await program().parse(["--config", file]);
+    expect(errors.map((e) => e.message)).toEqual([
+      `${file.replace(/\\/g, "/")}: invalid value for port: expected a number!`,
+      `${file.replace(/\\/g, "/")}: invalid value for verbose: expected a boolean!`,
+    ]);
+  });
+
+  test("reads numbers and booleans as text for strings and choices", async () => {
+    const file = path.join(dir, "custom.yaml");
+    await fs.writeFile(file, "tag: 1.5\nlevel: 2\nflag: true\n");
+    const cmd = new Command("mycli").config().input({
+      tag: i.option("string", "--tag"),
+      level: i.option(i.choices(["1", "2"]), "--level"),
+      flag: i.option("string", "--flag"),
+    });
+
+    const { input, errors } = await cmd.parse(["--config", file]);
+    expect(errors).toEqual([]);
+    expect(input).toEqual({ tag: "1.5", level: "2", flag: "true" });
+
+    const toml = path.join(dir, "custom.toml");
+    await fs.writeFile(toml, "tag = 2\nlevel = 3\nflag = false\n");
+    const invalid = await cmd.parse(["--config", toml]);
+    expect(invalid.input).toMatchObject({ tag: "2", flag: "false" });
+    expect(invalid.errors).toEqual([expect.any(error.ConfigValueError)]);
+  });
+
+  test("requires a path after --config", async () => {
+    await fs.writeFile(
+      path.join(dir, "project", ".mycli.json"),
+      JSON.stringify({ region: "project" }),
+    );
+
+    const { input, errors } = await program().parse(["--config"]);
+    expect(errors.map((e) => e.message)).toEqual(["--config expects a path!"]);
+    expect(input.region).toBeUndefined();
+  });
+
+  test("reports unreadable files", async () => {
+    const { errors } = await program().parse([
+      "--config",
+      path.join(dir, "missing.json"),
+    ]);
+    expect(errors[0]).toBeInstanceOf(error.ConfigFileError);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, test } from "vitest";
+import { Command, i } from "@/index";
+import { generateDocs } from "@/docs";
+
+function program() {
+  const root = new Command("mycli", "My CLI", "1.0.0");
+  root
+    .subCommand(["deploy", "d"], "Deploys the app.")
+    .input({
+      region: i.option("string", "--region", "-r").default("eu"),
+      tags: i.option("string", "--tag").list(";").optional(),
+      env: i.option(i.choices(["dev", "prod"]), "--env"),
+      files: i.positional("string").list().optional(),
+    })
+    .example("mycli deploy --env prod", "Deploy to production:");
+  return root;
+}
+
+describe("generateDocs()", () => {
+  test("renders a single Markdown page with a section per command", () => {
+    const [page] = generateDocs(program());
+    expect(page.file).toBe("mycli.md");
+    expect(page.content).toContain("## mycli deploy\n\nDeploys the app.");
+    expect(page.content).toContain(
+      "```sh\nmycli deploy [--region <string>] [--tag <string>...] --env <dev|prod> [files...]\n```",
+    );
+    expect(page.content).toContain(
+      '| `--tag` | string[] (separated by ";") |  | no |  |',
+    );
+    expect(page.content).toContain(
+      '| `--env` | "dev" \\| "prod" |  | yes |  |',
+    );
+    expect(page.content).toContain(
+      "| [`deploy`](#mycli-deploy) | `d` | Deploys the app. |",
+    );
+  });
+
+  test("splits pages with cross-links", () => {
+    const pages = generateDocs(program(), { split: true });
+    expect(pages.map((p) => p.file)).toEqual(["mycli.md", "mycli-deploy.md"]);
+    expect(pages[0].content).toContain("(mycli-deploy.md)");
+    expect(pages[1].content).toContain("See also: [`mycli`](mycli.md)");
+  });
+
+  test("renders standalone HTML", () => {
+    const [page] = generateDocs(program(), { format: "html" });
+    expect(page.file).toBe("mycli.html");
+    expect(page.content).toMatch(/^<!DOCTYPE html>/);
+    expect(page.content).toContain('<section id="mycli-deploy">');
+    expect(page.content).toContain(
+      "<pre><code>mycli deploy [--region &lt;string&gt;]",
+    );
+  });
+
+  test("is deterministic", () => {
+    expect(generateDocs(program())).toEqual(generateDocs(program()));
+  });
+});
@@ -0,0 +1,96 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { Command } from "@/index";
+import { findExecutable, listExternalCommands } from "@/external";
+
+// external commands are shell scripts
+describe.skipIf(process.platform === "win32")("external subcommands", () => {
+  let dir: string;
+
+  async function writeScript(name: string, body: string) {
+    const file = path.join(dir, name);
+    await fs.writeFile(file, `#!/bin/sh\n${body}\n`);
+    await fs.chmod(file, 0o755);
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "convoker-"));
+    await writeScript(
+      "mycli-hello",
+      'printf "%s\\n" "$@" > "$(dirname "$0")/args"\nexit 3',
+    );
+    await writeScript("mycli-cloud-up", "exit 0");
+    await fs.writeFile(path.join(dir, "mycli-notes"), "not executable");
+    vi.stubEnv("PATH", `${dir}:${process.env.PATH}`);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("finds executables on PATH", async () => {
+    expect(await findExecutable("mycli-hello")).toBe(
+      path.join(dir, "mycli-hello"),
+    );
+    expect(await findExecutable("mycli-notes")).toBeUndefined();
+    expect(await listExternalCommands("mycli-")).toEqual([
+      { name: "cloud-up", path: path.join(dir, "mycli-cloud-up") },
+      { name: "hello", path: path.join(dir, "mycli-hello") },
+    ]);
+  });
+
+  test("runs them with the remaining arguments", async () => {
+    const root = new Command("mycli").external();
+    root.subCommand("status").action(() => {});
+
+    expect(await root.run(["hello", "--name", "Alice", "-v"])).toBe(3);
+    expect(await fs.readFile(path.join(dir, "args"), "utf8")).toBe(
+      "--name\nAlice\n-v\n",
+    );
+  });
+
+  test("reports executables that can't be started", async () => {
+    await writeScript("mycli-broken", "exit 0");
+    await fs.writeFile(
+      path.join(dir, "mycli-broken"),
+      "#!/nonexistent/interpreter\n",
+    );
+    const root = new Command("mycli").external();
+    root.subCommand("status").action(() => {});
+
+    const errors = vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(await root.run(["broken"])).toBe(127);
+    expect(String(errors.mock.calls[0][0])).toContain(
+      `can't run ${path.join(dir, "mycli-broken")}`,
+    );
+    errors.mockRestore();
+  });
+
+  test("uses the command path as prefix", async () => {
+    const root = new Command("mycli");
+    const cloud = root.subCommand("cloud").external();
+    expect(await cloud.externalCommands()).toEqual([
+      { name: "up", path: path.join(dir, "mycli-cloud-up") },
+    ]);
+  });
+
+  test("is opt-in", async () => {
+    const root = new Command("mycli").allowSurpassArgLimit();
+    const result = await root.parse(["hello"]);
+    expect(result.external).toBeUndefined();
+  });
+
+  test("lists them in help", async () => {
+    const root = new Command("mycli").external({ prefix: "mycli-" });
+    root.subCommand("status");
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    await root.run(["--help"]);
+    const help = String(log.mock.calls[0][0]).replace(/\u001b\[\d+m/g, "");
+    log.mockRestore();
+    expect(help).toContain("external commands:");
+    expect(help).toMatch(/ {2}hello +\//);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, test, vi } from "vitest";
+import { Command, i } from "@/index";
+import { DefaultHelpFormatter, usage, wrap, type HelpFormatter } from "@/help";
+
+// colors depend on the terminal the tests run in
+function plain(text: string) {
+  return text.replace(/\u001b\[\d+m/g, "");
+}
+
+function program() {
+  const root = new Command("mycli", "My CLI", "1.0.0");
+  const deploy = root.subCommand(["deploy", "d"], "Deploys the app.").input({
+    region: i
+      .option("string", "--region", "-r")
+      .description("The region to deploy to.")
+      .default("eu"),
+    dry: i.option("boolean", "--dry").optional(),
+    target: i.positional("string").description("The target."),
+    files: i.positional("string").list().optional(),
+  });
+  return { root, deploy };
+}
+
+describe("usage()", () => {
+  test("synthesizes the usage line from the input", () => {
+    const { root, deploy } = program();
+    expect(usage(deploy)).toBe(
+      "mycli deploy [--region <string>] [--dry] <target> [files...]",
+    );
+    expect(usage(root)).toBe("mycli <command>");
+  });
+});
+
+describe("wrap()", () => {
+  test("wraps words to a width", () => {
+    expect(wrap("one two three four", 9)).toEqual(["one two", "three", "four"]);
+  });
+});
+
+describe("DefaultHelpFormatter", () => {
+  test("shows values, defaults and required markers", () => {
+    const { deploy } = program();
+    const help = plain(new DefaultHelpFormatter({ width: 80 }).format(deploy));
+    expect(help).toContain(
+      "  --region, -r <string>    The region to deploy to. [default: eu]",
+    );
+    expect(help).toContain("  --[no-]dry");
+    expect(help).toContain("  <target>      The target. [required]");
+    expect(help).not.toContain("sub commands:");
+  });
+
+  test("wraps descriptions to the width", () => {
+    const { deploy } = program();
+    const help = plain(new DefaultHelpFormatter({ width: 40 }).format(deploy));
+    for (const line of help.split("\n")) {
+      expect(line.length).toBeLessThanOrEqual(40);
+    }
+    expect(help).toContain("  --region, -r <string>\n");
+  });
+
+  test("lists subcommand aliases", () => {
+    const { root } = program();
+    const help = plain(new DefaultHelpFormatter({ width: 80 }).format(root));
+    expect(help).toContain("  deploy, d    Deploys the app.");
+  });
+
+  test("leaves out hidden and deprecated entries", () => {
+    const root = new Command("mycli");
+    root.subCommand("internal").hidden();
+    root.subCommand("remove").deprecatedAlias("rm", "use remove");
+    root.subCommand("ship").deprecated("use deploy");
+    root.input({
+      color: i
+        .option("boolean", "--color")
+        .deprecatedAlias("--colour", "use --color"),
+      debug: i.option("boolean", "--debug").hidden(),
+    });
+    const help = plain(new DefaultHelpFormatter({ width: 80 }).format(root));
+    expect(help).not.toContain("internal");
+    expect(help).not.toContain("rm");
+    expect(help).not.toContain("--colour");
+    expect(help).not.toContain("--debug");
+    expect(help).toContain("[deprecated: use deploy]");
+  });
+
+  test("handles commands without input or subcommands", () => {
+    const help = new DefaultHelpFormatter().format(new Command("empty"));
+    expect(help).not.toContain("Infinity");
+  });
+});
+
+describe("Command.helpFormatter()", () => {
+  test("is inherited by subcommands", async () => {
+    const { root } = program();
+    const formatter: HelpFormatter = {
+      format: (cmd) => `help for ${cmd.$names[0]}`,
+    };
+    root.helpFormatter(formatter);
+
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    await root.run(["deploy", "--help"]);
+    expect(log).toHaveBeenCalledWith("help for deploy");
+    log.mockRestore();
+  });
+});
@@ -1,5 +1,5 @@
 import * as v from "valibot";
-import { describe, test, expect } from "vitest";
+import { describe, test, expect, expectTypeOf } from "vitest";
 import { i } from "@/index";
 
 // --- Runtime tests ---
@@ -28,6 +28,25 @@ describe("Option", () => {
     const opt = i.option("string", "--foo").default("bar");
     expect(opt.$default).toBe("bar");
   });
+
+  test("is negatable by default", () => {
+    const opt = i.option("boolean", "--foo");
+    expect(opt.$negatable).toBe(true);
+    expect(opt.negatable(false).$negatable).toBe(false);
+  });
+});
+
+describe("parseBoolean()", () => {
+  test("parses truthy and falsy values", () => {
+    expect(i.parseBoolean("yes")).toBe(true);
+    expect(i.parseBoolean("1")).toBe(true);
+    expect(i.parseBoolean("False")).toBe(false);
+    expect(i.parseBoolean("off")).toBe(false);
+  });
+
+  test("returns undefined for other values", () => {
+    expect(i.parseBoolean("maybe")).toBeUndefined();
+  });
 });
 
 describe("Positional", () => {
@@ -92,6 +111,12 @@ describe("Type inference", () => {
     expect(a).toBe("foo");
   });
 
+  test("infers the union of choices", () => {
+    const env = i.option(i.choices(["dev", "prod"]), "--env");
+    expectTypeOf<i.InferEntry<typeof env>>().toEqualTypeOf<"dev" | "prod">();
+    expect(env.$kind.$choices).toEqual(["dev", "prod"]);
+  });
+
   test("infers Input object correctly", () => {
     // eslint-disable-next-line -- you can't just inline this
     const input = {
@@ -0,0 +1,53 @@
+import { describe, expect, test } from "vitest";
+import { Command, i } from "@/index";
+import { generateManPage, generateManPages } from "@/man";
+
+function program() {
+  const root = new Command("mycli", "My CLI", "1.0.0");
+  root
+    .subCommand(["deploy", "d"], "Deploys the app.")
+    .input({
+      region: i
+        .option("string", "--region", "-r")
+        .description("The region.")
+        .default("eu"),
+      env: i.option(i.choices(["dev", "prod"]), "--env"),
+      dry: i.option("boolean", "--dry").optional(),
+      files: i.positional("string").list().optional(),
+    })
+    .example("mycli deploy --env prod", "Deploy to production:");
+  return root;
+}
+
+describe("generateManPages()", () => {
+  test("generates a page per command path", () => {
+    const pages = generateManPages(program(), { date: "2024-01-01" });
+    expect(pages.map((p) => p.file)).toEqual(["mycli.1", "mycli-deploy.1"]);
+  });
+});
+
+describe("generateManPage()", () => {
+  test("includes every section", () => {
+    const deploy = program().$children.get("deploy")!.command;
+    const page = generateManPage(deploy, { date: "2024-01-01" });
+    expect(page).toContain(
+      '.TH "MYCLI\\-DEPLOY" "1" "2024\\-01\\-01" "mycli 1.0.0" "mycli manual"',
+    );
+    expect(page).toContain("mycli\\-deploy \\- Deploys the app.");
+    expect(page).toContain(
+      "\\fBmycli deploy\\fR [\\fB\\-\\-region\\fR \\fIstring\\fR] \\fB\\-\\-env\\fR \\fIdev|prod\\fR [\\fB\\-\\-dry\\fR] [\\fIfiles\\fR...]",
+    );
+    expect(page).toContain("The region. Default: eu.");
+    expect(page).toContain("One of: dev, prod. Required.");
+    expect(page).toContain(".SH EXAMPLES\n.PP\nDeploy to production:");
+    expect(page).toContain(".SH VERSION\n1.0.0");
+    expect(page).toContain(".SH SEE ALSO\n\\fBmycli\\fR(1)");
+  });
+
+  test("lists subcommands with their pages", () => {
+    const page = generateManPage(program(), { date: "2024-01-01" });
+    expect(page).toContain(
+      "\\fBdeploy\\fR, \\fBd\\fR\nDeploys the app. See mycli\\-deploy(1).",
+    );
+  });
+});
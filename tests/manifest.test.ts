@@ -0,0 +1,163 @@
+import { describe, expect, test } from "vitest";
+import { Command, i, type Context } from "@/index";
+import { fromManifest, ManifestVersionError, type Manifest } from "@/manifest";
+import type { StandardSchemaV1 } from "@/standard-schema";
+
+const port = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value: unknown) => ({ value: Number(value) }),
+    jsonSchema: { input: () => ({ type: "integer" }) },
+  },
+} as StandardSchemaV1<string, number>;
+
+function program() {
+  const root = new Command(["mycli", "m"], "My CLI", "1.0.0");
+  root
+    .subCommand("deploy", "Deploys the app.")
+    .input({
+      region: i.option("string", "--region", "-r").default("eu"),
+      env: i.option(i.choices(["dev", "prod"]), "--env").env("DEPLOY_ENV"),
+      port: i.option(port, "--port").optional(),
+      size: i.option("bigint", "--size").default(1n),
+      files: i.positional("string").list().optional(),
+    })
+    .example("mycli deploy --env prod")
+    .action(() => {});
+  root
+    .subCommand("ship")
+    .deprecatedAlias("send", "use ship")
+    .hidden()
+    .deprecated("use deploy", "deploy")
+    .input({
+      color: i
+        .option("boolean", "--color")
+        .deprecatedAlias("--colour", "use --color")
+        .hidden(),
+      target: i.positional("string").optional().deprecated("use --color"),
+    })
+    .action(() => {});
+  return root;
+}
+
+describe("Command.toManifest()", () => {
+  test("describes the command tree", () => {
+    const manifest = program().toManifest();
+    expect(manifest.manifestVersion).toBe(1);
+    expect(manifest.command).toMatchObject({
+      name: "mycli",
+      aliases: ["m"],
+      version: "1.0.0",
+      runnable: false,
+    });
+
+    const deploy = manifest.command.children[0];
+    expect(deploy.runnable).toBe(true);
+    expect(deploy.options).toEqual([
+      {
+        key: "region",
+        names: ["region", "r"],
+        kind: { type: "string" },
+        list: false,
+        required: true,
+        default: "eu",
+      },
+      {
+        key: "env",
+        names: ["env"],
+        kind: { type: "choices", choices: ["dev", "prod"] },
+        list: false,
+        required: true,
+        env: "DEPLOY_ENV",
+      },
+      {
+        key: "port",
+        names: ["port"],
+        kind: {
+          type: "schema",
+          vendor: "test",
+          jsonSchema: { type: "integer" },
+        },
+        list: false,
+        required: false,
+      },
+      {
+        key: "size",
+        names: ["size"],
+        kind: { type: "bigint" },
+        list: false,
+        required: true,
+        default: "1",
+      },
+    ]);
+    expect(deploy.positionals).toEqual([
+      { key: "files", kind: { type: "string" }, list: true, required: false },
+    ]);
+    expect(JSON.parse(JSON.stringify(manifest))).toEqual(manifest);
+  });
+
+  test("describes hidden and deprecated commands and input", () => {
+    const ship = program().toManifest().command.children[1];
+    expect(ship).toMatchObject({
+      name: "ship",
+      aliases: ["send"],
+      hidden: true,
+      deprecated: { message: "use deploy", replacement: "deploy" },
+      deprecatedAliases: { send: "use ship" },
+    });
+    expect(ship.options[0]).toMatchObject({
+      names: ["color", "colour"],
+      hidden: true,
+      deprecatedAliases: { colour: "use --color" },
+    });
+    expect(ship.positionals[0].deprecated).toEqual({ message: "use --color" });
+    expect(program().toManifest().command.children[0]).not.toHaveProperty(
+      "hidden",
+    );
+  });
+});
+
+describe("Command.fromManifest()", () => {
+  test("rebuilds a tree that parses the same way", async () => {
+    const rebuilt = Command.fromManifest(
+      JSON.parse(JSON.stringify(program().toManifest())),
+    );
+    expect(rebuilt.toManifest().command.children[0].options[3].default).toBe(
+      "1",
+    );
+
+    const { command, input } = await rebuilt.parse([
+      "deploy",
+      "--env",
+      "dev",
+      "a",
+    ]);
+    expect(command.$names).toEqual(["deploy"]);
+    expect(input).toEqual({ region: "eu", env: "dev", size: 1n, files: ["a"] });
+    expect(() => command.$fn!({}, {} as Context)).toThrow(/manifest/);
+  });
+
+  test("keeps hidden and deprecated state", async () => {
+    const manifest = program().toManifest();
+    const rebuilt = fromManifest(JSON.parse(JSON.stringify(manifest)));
+    expect(rebuilt.toManifest().command.children[1]).toEqual(
+      manifest.command.children[1],
+    );
+
+    const ship = rebuilt.$children.get("ship")!.command;
+    expect(ship.$hidden).toBe(true);
+    expect(rebuilt.$children.get("send")!.deprecated).toEqual({
+      message: "use ship",
+    });
+    const { deprecations } = await rebuilt.parse(["send", "--colour"]);
+    expect(deprecations).toContain("--colour is deprecated: use --color");
+  });
+
+  test("rejects unknown manifest versions", () => {
+    const manifest = { ...program().toManifest(), manifestVersion: 2 };
+    expect(() => fromManifest(manifest as unknown as Manifest)).toThrow(
+      ManifestVersionError,
+    );
+  });
+});
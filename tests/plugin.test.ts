@@ -0,0 +1,184 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { Command } from "@/index";
+import { definePlugin, discoverPlugins, PluginError } from "@/plugin";
+import { fileUrl, satisfies } from "@/utils";
+
+describe("Command.plugin()", () => {
+  test("adds subcommands and middleware", async () => {
+    const calls: string[] = [];
+    const root = new Command("mycli", "My CLI", "1.2.0");
+    root.plugin(
+      definePlugin({
+        name: "deploy-pack",
+        version: "0.1.0",
+        compatible: "^1.0.0",
+        commands: [
+          new Command(["deploy", "d"]).action(() => {
+            calls.push("deploy");
+          }),
+        ],
+        middlewares: [
+          async (_input, _ctx, next) => {
+            calls.push("mw");
+            await next();
+          },
+        ],
+      }),
+    );
+
+    await root.run(["d"]);
+    expect(calls).toEqual(["mw", "deploy"]);
+    expect(root.$plugins).toEqual([
+      {
+        name: "deploy-pack",
+        version: "0.1.0",
+        path: undefined,
+        commands: ["deploy", "d"],
+      },
+    ]);
+  });
+
+  test("rejects incompatible plugins", () => {
+    const root = new Command("mycli", "My CLI", "2.0.0");
+    expect(() =>
+      root.plugin({ name: "old", compatible: "^1.0.0", commands: [] }),
+    ).toThrow(
+      new PluginError("old", "requires mycli ^1.0.0, but this is 2.0.0"),
+    );
+    expect(root.$plugins).toEqual([]);
+  });
+
+  test("detects collisions without adding anything", () => {
+    const root = new Command("mycli");
+    root.plugin({ name: "a", commands: [new Command("deploy")] });
+    expect(() =>
+      root.plugin({
+        name: "b",
+        commands: [new Command("status"), new Command(["ship", "deploy"])],
+      }),
+    ).toThrow('command "deploy" is already defined by plugin a');
+    expect(root.$children.has("status")).toBe(false);
+    expect(root.$plugins.map((p) => p.name)).toEqual(["a"]);
+  });
+});
+
+describe("plugin discovery", () => {
+  let dir: string;
+
+  async function writePackage(
+    base: string,
+    name: string,
+    json: Record<string, unknown>,
+    source: string,
+  ) {
+    const pkg = path.join(base, name);
+    await fs.mkdir(pkg, { recursive: true });
+    await fs.writeFile(
+      path.join(pkg, "package.json"),
+      JSON.stringify({ name, type: "module", ...json }),
+    );
+    await fs.writeFile(path.join(pkg, "index.js"), source);
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "convoker-"));
+    const modules = path.join(dir, "node_modules");
+    await writePackage(
+      modules,
+      "mycli-plugin-deploy",
+      {},
+      'export default { name: "deploy", version: "1.0.0" };',
+    );
+    await writePackage(
+      modules,
+      "@acme/mycli-plugin-status",
+      { exports: { ".": { import: "./index.js" } } },
+      'export default { name: "status" };',
+    );
+    await writePackage(
+      modules,
+      "tools",
+      { mycliPlugin: true },
+      'export default { name: "tools" };',
+    );
+    await writePackage(modules, "lodash", {}, "export default {};");
+    await writePackage(
+      path.join(dir, "plugins"),
+      "broken",
+      {},
+      "export default 42;",
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("finds packages by prefix and field", async () => {
+    const packages = await discoverPlugins("mycli", { from: dir });
+    expect(packages.map((p) => p.name)).toEqual([
+      "@acme/mycli-plugin-status",
+      "mycli-plugin-deploy",
+      "tools",
+    ]);
+  });
+
+  test("loads discovered plugins", async () => {
+    const errors: PluginError[] = [];
+    const root = new Command("mycli");
+    await root.plugins({
+      from: dir,
+      dirs: [path.join(dir, "plugins")],
+      onError: (e) => errors.push(e),
+    });
+    expect(root.$plugins.map((p) => p.name)).toEqual([
+      "status",
+      "deploy",
+      "tools",
+    ]);
+    expect(errors.map((e) => e.plugin)).toEqual(["broken"]);
+  });
+
+  test("loads plugins from paths with URL characters", async () => {
+    const plugins = path.join(dir, "100%20 done");
+    await writePackage(plugins, "odd", {}, 'export default { name: "odd" };');
+    const root = new Command("mycli");
+    await root.plugins({ from: false, dirs: [plugins] });
+    expect(root.$plugins.map((p) => p.name)).toEqual(["odd"]);
+  });
+
+  test("throws without an error handler", async () => {
+    const root = new Command("mycli");
+    await expect(
+      root.plugins({ from: false, dirs: [path.join(dir, "plugins")] }),
+    ).rejects.toThrow(PluginError);
+  });
+});
+
+describe("fileUrl()", () => {
+  test("escapes characters that mean something in URLs", () => {
+    const file = "/tmp/a #1?x=%20/index.js";
+    expect(fileUrl(file)).toBe("file:///tmp/a%20%231%3Fx%3D%2520/index.js");
+    expect(fileURLToPath(fileUrl(file))).toBe(file);
+    expect(fileUrl("C:\\Users\\a #1\\index.js")).toBe(
+      "file:///C:/Users/a%20%231/index.js",
+    );
+  });
+});
+
+describe("satisfies()", () => {
+  test("matches semver ranges", () => {
+    expect(satisfies("1.4.2", "^1.2.0")).toBe(true);
+    expect(satisfies("2.0.0", "^1.2.0")).toBe(false);
+    expect(satisfies("0.3.1", "^0.2.0")).toBe(false);
+    expect(satisfies("1.2.9", "~1.2.3")).toBe(true);
+    expect(satisfies("1.3.0", "~1.2.3")).toBe(false);
+    expect(satisfies("3.1.0", ">=1.0.0 <3 || 3.1.x")).toBe(true);
+    expect(satisfies("2.5.0", "1.x || >= 2.5")).toBe(true);
+    expect(satisfies("1.0.0", "*")).toBe(true);
+  });
+});
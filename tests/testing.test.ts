@@ -0,0 +1,99 @@
+import { describe, expect, test } from "vitest";
+import { Command, i, log, prompt } from "@/index";
+import { ExitError } from "@/error";
+import { testCommand } from "@/testing";
+
+describe("testCommand()", () => {
+  test("captures output and input", async () => {
+    const root = new Command("mycli");
+    root
+      .subCommand("greet")
+      .input({ name: i.option("string", "--name").default("World") })
+      .action(async ({ name }) => {
+        console.log(`Hello, ${name}!`);
+        await log.error("done");
+      });
+
+    const result = await testCommand(root, ["greet", "--name", "Alice"]);
+    expect(result.stdout).toBe("Hello, Alice!\n");
+    expect(result.stderr).toContain("[ERROR] done");
+    expect(result.exitCode).toBe(0);
+    expect(result.errors).toEqual([]);
+    expect(result.input).toEqual({ name: "Alice" });
+  });
+
+  test("reports errors and exit codes", async () => {
+    const root = new Command("mycli").input({
+      count: i.option("number", "--count").optional(),
+    });
+    root.action(() => {
+      throw new ExitError(4, "nope");
+    });
+
+    const usage = await testCommand(root, ["--nope"]);
+    expect(usage.exitCode).toBe(2);
+    expect(usage.errors).toHaveLength(1);
+    expect(usage.stderr).not.toBe("");
+
+    const failed = await testCommand(root, ["--count", "3"]);
+    expect(failed.exitCode).toBe(4);
+    expect(failed.stderr).toBe("nope\n");
+  });
+
+  test("replaces stdin, the environment and the terminal", async () => {
+    const root = new Command(
+      "mycli",
+      "A CLI with a description that is too long for the terminal.",
+    )
+      .input({ region: i.option("string", "--region").env("REGION") })
+      .action(async ({ region }, { stdin, stdout }) => {
+        let text = "";
+        for await (const chunk of stdin) text += chunk;
+        const writer = stdout.getWriter();
+        await writer.write(`${region}:${text}`);
+        writer.releaseLock();
+      });
+
+    const result = await testCommand(root, [], {
+      stdin: "piped",
+      env: { REGION: "eu" },
+    });
+    expect(result.stdout).toBe("eu:piped");
+
+    const help = await testCommand(root, ["--help"], {
+      columns: 40,
+      color: true,
+    });
+    expect(help.stdout).toContain("\u001b[1musage:\u001b[22m");
+    expect(help.stdout).toContain(
+      "A CLI with a description that is too\nlong for the terminal.",
+    );
+  });
+
+  test("answers prompts from a script", async () => {
+    const root = new Command("mycli").action(async () => {
+      const name = await prompt.text({ message: "Name?" });
+      const color = await prompt.select({
+        message: "Color?",
+        options: [
+          { label: "Red", value: "red" },
+          { label: "Blue", value: "blue" },
+        ],
+      });
+      console.log(`${name} likes ${color}`);
+    });
+
+    const result = await testCommand(root, [], {
+      answers: ["Alice", "down", "enter"],
+    });
+    expect(result.stdout).toContain("Name? Alice\n");
+    expect(result.stdout).toContain("Alice likes blue\n");
+    expect(result.exitCode).toBe(0);
+
+    const missing = await testCommand(root, [], { answers: [] });
+    expect(missing.exitCode).toBe(1);
+    expect(missing.errors[0].message).toBe(
+      "the prompt ran out of scripted answers",
+    );
+  });
+});